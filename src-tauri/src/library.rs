@@ -0,0 +1,121 @@
+//! The session library: every ranking is kept as one JSON file in the app data directory, holding a short summary for
+//! the library screen next to the session snapshot itself. The frontend saves after every answer, so a crash or a
+//! closed window loses at most the question on screen.
+
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use tauri::AppHandle;
+
+/// What the library screen shows about a session without loading it.
+#[derive(Serialize, Deserialize, Clone)]
+#[serde(rename_all = "camelCase")]
+pub struct SessionMeta {
+  id: String,
+  name: String,
+  /// Milliseconds since the Unix epoch.
+  updated: u64,
+  items: usize,
+  answers: usize,
+  done: bool,
+}
+
+#[derive(Serialize, Deserialize)]
+struct StoredSession {
+  meta: SessionMeta,
+  session: Value,
+}
+
+fn sessions_dir(app: &AppHandle) -> Result<PathBuf, String> {
+  let dir = app
+    .path_resolver()
+    .app_dir()
+    .ok_or("There is no app data directory.")?
+    .join("sessions");
+  fs::create_dir_all(&dir).map_err(|error| error.to_string())?;
+  Ok(dir)
+}
+
+/// Ids come from the frontend, so they are checked before they become file names.
+fn session_path(app: &AppHandle, id: &str) -> Result<PathBuf, String> {
+  if id.is_empty() || !id.chars().all(|c| c.is_ascii_alphanumeric() || c == '-') {
+    return Err(format!("Invalid session id {}.", id));
+  }
+  Ok(sessions_dir(app)?.join(format!("{}.json", id)))
+}
+
+fn read(path: &Path) -> Result<StoredSession, String> {
+  let text = fs::read_to_string(path).map_err(|error| error.to_string())?;
+  serde_json::from_str(&text).map_err(|error| error.to_string())
+}
+
+/// Writes to a temporary file first and renames it over the old one, so a crash mid-write keeps the previous save.
+fn write(path: &Path, stored: &StoredSession) -> Result<(), String> {
+  let text = serde_json::to_string(stored).map_err(|error| error.to_string())?;
+  let temporary = path.with_extension("json.tmp");
+  fs::write(&temporary, text).map_err(|error| error.to_string())?;
+  fs::rename(&temporary, path).map_err(|error| error.to_string())
+}
+
+fn now() -> u64 {
+  SystemTime::now()
+    .duration_since(UNIX_EPOCH)
+    .map(|duration| duration.as_millis() as u64)
+    .unwrap_or(0)
+}
+
+/// All saved sessions, most recently changed first. Files that cannot be read are left out.
+#[tauri::command]
+pub fn list_sessions(app: AppHandle) -> Result<Vec<SessionMeta>, String> {
+  let mut sessions = Vec::new();
+  for entry in fs::read_dir(sessions_dir(&app)?).map_err(|error| error.to_string())? {
+    let path = entry.map_err(|error| error.to_string())?.path();
+    if path.extension().and_then(|extension| extension.to_str()) != Some("json") {
+      continue;
+    }
+    if let Ok(stored) = read(&path) {
+      sessions.push(stored.meta);
+    }
+  }
+  sessions.sort_by(|a, b| b.updated.cmp(&a.updated));
+  Ok(sessions)
+}
+
+#[tauri::command]
+pub fn load_session(app: AppHandle, id: String) -> Result<Value, String> {
+  Ok(read(&session_path(&app, &id)?)?.session)
+}
+
+/// Creates or overwrites the session with meta.id.
+#[tauri::command]
+pub fn save_session(app: AppHandle, meta: SessionMeta, session: Value) -> Result<(), String> {
+  let path = session_path(&app, &meta.id)?;
+  write(&path, &StoredSession { meta, session })
+}
+
+#[tauri::command]
+pub fn rename_session(app: AppHandle, id: String, name: String) -> Result<(), String> {
+  let path = session_path(&app, &id)?;
+  let mut stored = read(&path)?;
+  stored.meta.name = name;
+  write(&path, &stored)
+}
+
+/// Copies a session under a new id and name.
+#[tauri::command]
+pub fn duplicate_session(app: AppHandle, id: String, new_id: String, name: String) -> Result<SessionMeta, String> {
+  let mut stored = read(&session_path(&app, &id)?)?;
+  stored.meta.id = new_id;
+  stored.meta.name = name;
+  stored.meta.updated = now();
+  write(&session_path(&app, &stored.meta.id)?, &stored)?;
+  Ok(stored.meta)
+}
+
+#[tauri::command]
+pub fn delete_session(app: AppHandle, id: String) -> Result<(), String> {
+  fs::remove_file(session_path(&app, &id)?).map_err(|error| error.to_string())
+}
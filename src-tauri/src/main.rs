@@ -3,10 +3,20 @@
   windows_subsystem = "windows"
 )]
 
+mod library;
+
 fn main() {
   let context = tauri::generate_context!();
   tauri::Builder::default()
     .menu(tauri::Menu::os_default(&context.package_info().name))
+    .invoke_handler(tauri::generate_handler![
+      library::list_sessions,
+      library::load_session,
+      library::save_session,
+      library::rename_session,
+      library::duplicate_session,
+      library::delete_session
+    ])
     .run(context)
     .expect("error while running tauri application");
 }
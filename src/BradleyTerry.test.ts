@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { scoreSort } from './BradleyTerry'
+
+// Every answer follows the items' true order, so the sort has no reason to ask anything twice for long
+async function consistentRun (n: number) {
+	let items = Array.from({ length: n }, (_, i) => (i * 7) % n);
+	let asked = 0;
+	let scores = await scoreSort(items, async (a, b) => {
+		asked++;
+		return a - b;
+	});
+	return { order: scores.map(score => score.item), asked, cap: 2 * n * Math.ceil(Math.log2(n)) };
+}
+
+describe("scoreSort", () => {
+	for (let n of [5, 12, 20, 40]) {
+		it(`stops well before the comparison cap with consistent answers for ${n} items`, async () => {
+			let { order, asked, cap } = await consistentRun(n);
+			expect(order).toEqual(order.slice().sort((a, b) => a - b));
+			expect(asked).toBeLessThanOrEqual(cap * 0.6);
+		});
+	}
+
+	it("uses the whole budget when the answers never settle", async () => {
+		let asked = 0;
+		await scoreSort([0, 1, 2], async () => {
+			asked++;
+			return asked % 2 == 0 ? -1 : 1;
+		}, { maxComparisons: 10 });
+		expect(asked).toBe(10);
+	});
+
+	it("fits earlier comparisons without asking them again", async () => {
+		let items = [0, 1, 2, 3, 4, 5];
+		let history: [number, number, number][] = [];
+		let live = await scoreSort(items, async (a, b) => {
+			history.push([a, b, a - b]);
+			return a - b;
+		});
+		let replayed = await scoreSort(items, async () => {
+			throw new Error("A recorded comparison was asked again.");
+		}, {}, undefined, history);
+		expect(replayed.map(score => score.item)).toEqual(live.map(score => score.item));
+		replayed.forEach((score, i) => expect(score.score).toBeCloseTo(live[i].score, 4));
+	});
+});
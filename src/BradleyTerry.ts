@@ -0,0 +1,239 @@
+/*
+ * Probabilistic ranking (Bradley-Terry)
+ *
+ * A comparison sort trusts every answer, so one bad click can move an item many places. This engine instead gives each
+ * item a latent score s and reads every answer as evidence: a goes first with probability 1 / (1 + e^(s_b - s_a)), the
+ * model behind Elo ratings. The scores are refitted after every answer, the next question is the pair the model is
+ * least sure about, and it stops once every item is ahead of the next one with enough confidence -- or once the
+ * question budget is spent.
+ */
+import type { ProgressListener } from './Progress'
+
+export { scoreSort, bradleyTerrySort, eloRating, DEFAULT_CONFIDENCE }
+export type { Score, ScoringOptions }
+
+/**
+ * An item's fitted score, higher goes first. uncertainty is the standard error of the score.
+ */
+interface Score<T> {
+	item: T;
+	score: number;
+	uncertainty: number;
+}
+
+interface ScoringOptions {
+	/**
+	 * Stop once every item goes before the next one in the order with at least this probability.
+	 */
+	confidence?: number;
+	/**
+	 * Never make more than this many comparisons. Defaults to twice what a comparison sort needs at worst.
+	 */
+	maxComparisons?: number;
+}
+
+const DEFAULT_CONFIDENCE = 0.8;
+
+// Scores start out as a normal distribution around 0, which keeps an item that won every comparison from running off to
+// infinity. Its standard deviation is half the number of items, and never below 2: a narrower prior squeezes a long list
+// so tightly that neighbours in it never get far enough apart to be told apart with confidence
+const MIN_PRIOR_VARIANCE = 4;
+// Fits run until no score moves by more than the tolerance, so that fitting the same answers one at a time or all at
+// once ends up at the same scores
+const FIT_ITERATIONS = 1000;
+const FIT_TOLERANCE = 1e-6;
+
+/**
+ * Tally of the comparisons between one item and another, from the first item's side. Ties count half a win.
+ */
+interface Matchup {
+	wins: number;
+	games: number;
+}
+
+/**
+ * Ranks the items by asking for comparisons between the pairs the current scores are least sure about.
+ *
+ * @param arr the items to rank; not modified
+ * @param compareFn comparator, negative if a goes first
+ * @param history comparisons made earlier, as a and b with the comparator's value; they count towards maxComparisons,
+ * and the scores are fitted to all of them at once before anything is asked
+ * @return every item with its score, best first
+ */
+async function scoreSort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), options: ScoringOptions = {}, progress?: ProgressListener, history: [T, T, number][] = []) : Promise<Score<T>[]> {
+	let n = arr.length;
+	let confidence = options.confidence ?? DEFAULT_CONFIDENCE;
+	let maxComparisons = options.maxComparisons ?? 2 * n * Math.ceil(Math.log2(Math.max(n, 2)));
+	let priorVariance = Math.max(MIN_PRIOR_VARIANCE, n * n / 4);
+	let records: Map<number, Matchup>[] = arr.map(() => new Map());
+	let scores = new Array<number>(n).fill(0);
+	let variances = new Array<number>(n).fill(priorVariance);
+	// Cholesky factor of the posterior precision, for the variance of differences between scores; worked out when the
+	// stopping test needs it
+	let factor: number[][] | null = null;
+
+	let position = new Map(arr.map((item, i) => [item, i]));
+	for (let [a, b, result] of history) {
+		record(position.get(a)!, position.get(b)!, result);
+	}
+	if (history.length > 0) fit();
+
+	for (let made = history.length; made < maxComparisons; made++) {
+		let order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+		let unsure = 0;
+		for (let k = 0; k + 1 < n; k++) {
+			if (orderProbability(order[k], order[k + 1]) < confidence) unsure++;
+		}
+		if (unsure == 0) break;
+		if (progress !== undefined) {
+			progress({ best: Math.min(unsure, maxComparisons - made), worst: maxComparisons - made });
+		}
+
+		let [a, b] = mostInformativePair();
+		record(a, b, await compareFn(arr[a], arr[b]));
+		fit();
+	}
+
+	return scores
+		.map((score, i) => ({ item: arr[i], score, uncertainty: Math.sqrt(variances[i]), index: i }))
+		.sort((a, b) => b.score - a.score || a.index - b.index)
+		.map(({ item, score, uncertainty }) => ({ item, score, uncertainty }));
+
+	function record (a: number, b: number, comparison: number) {
+		let result = Math.sign(comparison);
+		tally(a, b, result < 0 ? 1 : result > 0 ? 0 : 0.5);
+		tally(b, a, result > 0 ? 1 : result < 0 ? 0 : 0.5);
+	}
+
+	function tally (a: number, b: number, wins: number) {
+		let record = records[a].get(b);
+		if (record === undefined) {
+			record = { wins: 0, games: 0 };
+			records[a].set(b, record);
+		}
+		record.wins += wins;
+		record.games++;
+	}
+
+	/**
+	 * Maximum a posteriori scores by Newton steps, one item at a time. The curvature at the end gives the variances.
+	 */
+	function fit () {
+		for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+			let largestStep = 0;
+			for (let i = 0; i < n; i++) {
+				let gradient = -scores[i] / priorVariance;
+				let curvature = 1 / priorVariance;
+				for (let [j, record] of records[i]) {
+					let p = winProbability(scores[i], scores[j]);
+					gradient += record.wins - record.games * p;
+					curvature += record.games * p * (1 - p);
+				}
+				scores[i] += gradient / curvature;
+				variances[i] = 1 / curvature;
+				largestStep = Math.max(largestStep, Math.abs(gradient / curvature));
+			}
+			if (largestStep < FIT_TOLERANCE) break;
+		}
+		factor = null;
+	}
+
+	/**
+	 * The curvature of the posterior at the scores: the prior and every matchup on the diagonal, each matchup once more
+	 * off it, where it ties the two scores together.
+	 */
+	function precision (): number[][] {
+		let matrix = arr.map((_, i) => arr.map((_, j) => i == j ? 1 / priorVariance : 0));
+		for (let i = 0; i < n; i++) {
+			for (let [j, record] of records[i]) {
+				let p = winProbability(scores[i], scores[j]);
+				matrix[i][i] += record.games * p * (1 - p);
+				matrix[i][j] -= record.games * p * (1 - p);
+			}
+		}
+		return matrix;
+	}
+
+	/**
+	 * The pair whose answer is most likely to change the scores: a close match between uncertain items, discounted
+	 * for every time the pair was already compared.
+	 */
+	function mostInformativePair (): [number, number] {
+		let best: [number, number] = [0, 1];
+		let bestValue = -1;
+		for (let a = 0; a < n; a++) {
+			for (let b = a + 1; b < n; b++) {
+				let p = winProbability(scores[a], scores[b]);
+				let value = p * (1 - p) * (variances[a] + variances[b]) / (1 + (records[a].get(b)?.games ?? 0));
+				if (value > bestValue) {
+					best = [a, b];
+					bestValue = value;
+				}
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Probability that a really goes before b, given the scores and their uncertainty. The uncertainty is that of the
+	 * difference: items compared with each other, directly or through others, are uncertain together, and much less
+	 * so about their order than about where each one lies on its own.
+	 */
+	function orderProbability (a: number, b: number): number {
+		// Var(s_a - s_b) = e' P^-1 e = |L^-1 e|^2 for the precision P = L L' and e the difference of unit vectors
+		if (factor === null) factor = cholesky(precision());
+		let solved = new Array<number>(n).fill(0);
+		let variance = 0;
+		for (let i = Math.min(a, b); i < n; i++) {
+			let sum = i == a ? 1 : i == b ? -1 : 0;
+			for (let k = Math.min(a, b); k < i; k++) sum -= factor[i][k] * solved[k];
+			solved[i] = sum / factor[i][i];
+			variance += solved[i] * solved[i];
+		}
+		return normalCdf((scores[a] - scores[b]) / Math.sqrt(variance));
+	}
+}
+
+/**
+ * scoreSort as a SortStrategy, for callers that only want the order.
+ */
+async function bradleyTerrySort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener) : Promise<T[]> {
+	return (await scoreSort(arr, compareFn, {}, progress)).map(score => score.item);
+}
+
+/**
+ * A score on the Elo scale, where a 400 point lead means 10 to 1 odds and the average item sits at 1500.
+ */
+function eloRating (score: number): number {
+	return 1500 + score * 400 / Math.LN10;
+}
+
+function winProbability (a: number, b: number): number {
+	return 1 / (1 + Math.exp(b - a));
+}
+
+/**
+ * Lower triangular L with L L' = matrix, for a symmetric positive definite matrix.
+ */
+function cholesky (matrix: number[][]): number[][] {
+	let n = matrix.length;
+	let lower = matrix.map(() => new Array<number>(n).fill(0));
+	for (let i = 0; i < n; i++) {
+		for (let j = 0; j <= i; j++) {
+			let sum = matrix[i][j];
+			for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+			lower[i][j] = i == j ? Math.sqrt(sum) : sum / lower[j][j];
+		}
+	}
+	return lower;
+}
+
+/**
+ * Standard normal cumulative distribution, by the Abramowitz and Stegun approximation of erf (error below 1.5e-7).
+ */
+function normalCdf (z: number): number {
+	let x = Math.abs(z) / Math.SQRT2;
+	let t = 1 / (1 + 0.3275911 * x);
+	let erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+	return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
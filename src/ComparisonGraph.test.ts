@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { ComparisonGraph } from './ComparisonGraph'
+
+describe("ComparisonGraph", () => {
+	it("answers the pair, the swapped pair and what follows from other answers", () => {
+		let graph = new ComparisonGraph<string>();
+		graph.record("a", "b", -1);
+		graph.record("b", "c", -1);
+		expect(graph.lookup("a", "b")).toEqual({ result: -1, how: "direct" });
+		expect(graph.lookup("b", "a")).toEqual({ result: 1, how: "mirrored" });
+		expect(graph.lookup("a", "c")).toEqual({ result: -1, how: "inferred" });
+		expect(graph.lookup("c", "a")).toEqual({ result: 1, how: "inferred" });
+		expect(graph.lookup("a", "d")).toBeUndefined();
+	});
+
+	it("lets equal items share each other's answers", () => {
+		let graph = new ComparisonGraph<string>();
+		graph.record("a", "b", 0);
+		graph.record("b", "c", -1);
+		graph.record("d", "a", -1);
+		expect(graph.lookup("a", "c")).toEqual({ result: -1, how: "inferred" });
+		expect(graph.lookup("d", "b")).toEqual({ result: -1, how: "inferred" });
+		expect(graph.lookup("c", "a")).toEqual({ result: 1, how: "inferred" });
+	});
+
+	it("only calls the wrapped comparator for what it cannot settle, and counts what it saved", async () => {
+		let graph = new ComparisonGraph<number>();
+		let asked: [number, number][] = [];
+		let compare = graph.wrap(async (a, b) => {
+			asked.push([a, b]);
+			return a - b;
+		});
+		expect(await compare(1, 2)).toBe(-1);
+		expect(await compare(2, 3)).toBe(-1);
+		expect(await compare(1, 3)).toBe(-1);
+		expect(await compare(3, 2)).toBe(1);
+		expect(await compare(1, 2)).toBe(-1);
+		expect(asked).toEqual([[1, 2], [2, 3]]);
+		expect(graph.stats).toEqual({ asked: 2, reused: 1, mirrored: 1, inferred: 1 });
+		expect(graph.saved).toBe(3);
+	});
+
+	it("does not count a recorded answer as saved the first time a replay asks for it", async () => {
+		let graph = new ComparisonGraph<number>();
+		graph.record(1, 2, -1);
+		let compare = graph.wrap(async () => {
+			throw new Error("A recorded answer was asked again.");
+		});
+		expect(await compare(1, 2)).toBe(-1);
+		expect(graph.saved).toBe(0);
+	});
+
+	it("splits a sorted order into tiers of equal items", () => {
+		let graph = new ComparisonGraph<string>();
+		graph.record("a", "b", -1);
+		graph.record("b", "c", 0);
+		graph.record("c", "d", -1);
+		expect(graph.tiers(["a", "b", "c", "d"])).toEqual([["a"], ["b", "c"], ["d"]]);
+	});
+});
@@ -0,0 +1,179 @@
+/*
+ * Comparison memo
+ *
+ * Every answer the human gives is an edge in a graph: "a goes before b", or "a and b are equal". Before a question is
+ * put to the human the graph is checked for the same pair, the swapped pair, and anything transitivity already settles
+ * (a < b and b < c means a < c; equal items share all of each other's edges).
+ */
+export { ComparisonGraph }
+export type { Comparator, Inference, MemoStats }
+
+type Comparator<K> = (a: K, b: K) => Promise<number>;
+
+/**
+ * How the graph knew the answer: the pair itself was answered, the swapped pair was, or it follows from other answers.
+ */
+interface Inference {
+	result: number;
+	how: "direct" | "mirrored" | "inferred";
+}
+
+interface MemoStats {
+	asked: number;
+	reused: number;
+	mirrored: number;
+	inferred: number;
+}
+
+class ComparisonGraph<K> {
+	stats: MemoStats = { asked: 0, reused: 0, mirrored: 0, inferred: 0 };
+
+	private direct = new Map<K, Map<K, number>>();
+	private before = new Map<K, Set<K>>();
+	private parent = new Map<K, K>();
+	private members = new Map<K, K[]>();
+
+	/**
+	 * Number of questions answered from the graph instead of being put to the human.
+	 */
+	get saved (): number {
+		return this.stats.reused + this.stats.mirrored + this.stats.inferred;
+	}
+
+	/**
+	 * Adds one answer to the graph.
+	 *
+	 * @param result negative if a goes before b, positive if b goes before a, 0 if they are equal
+	 */
+	record (a: K, b: K, result: number) {
+		result = Math.sign(result);
+		let row = this.direct.get(a);
+		if (row === undefined) {
+			row = new Map();
+			this.direct.set(a, row);
+		}
+		row.set(b, result);
+
+		if (result < 0) this.edge(a, b);
+		else if (result > 0) this.edge(b, a);
+		else this.union(a, b);
+	}
+
+	/**
+	 * Answers compare(a, b) from what has been recorded, or returns undefined if the human has to be asked.
+	 */
+	lookup (a: K, b: K): Inference | undefined {
+		let result = this.direct.get(a)?.get(b);
+		if (result !== undefined) return { result, how: "direct" };
+		result = this.direct.get(b)?.get(a);
+		if (result !== undefined) return { result: -result, how: "mirrored" };
+
+		if (this.find(a) === this.find(b)) return { result: 0, how: "inferred" };
+		if (this.reaches(a, b)) return { result: -1, how: "inferred" };
+		if (this.reaches(b, a)) return { result: 1, how: "inferred" };
+		return undefined;
+	}
+
+	/**
+	 * Splits a sorted order into tiers of items the answers say are equal. A stable sort keeps equal items next to each
+	 * other, so only neighbours have to be checked.
+	 *
+	 * @param order keys sorted with a comparator wrapped by this graph
+	 */
+	tiers (order: K[]): K[][] {
+		let tiers: K[][] = [];
+		for (let key of order) {
+			let last = tiers[tiers.length - 1];
+			if (last !== undefined && this.find(last[0]) === this.find(key)) last.push(key);
+			else tiers.push([key]);
+		}
+		return tiers;
+	}
+
+	/**
+	 * Wraps a comparator so that it is only called for questions the graph cannot settle, and records its answers.
+	 *
+	 * A pair that was recorded before the wrapper existed (a replayed answer) is not counted as saved the first time it
+	 * comes up, because the run that is replaying it is the one that originally asked it.
+	 */
+	wrap (compare: Comparator<K>): Comparator<K> {
+		let consulted = new Map<K, Set<K>>();
+		return async (a: K, b: K) => {
+			let seen = consulted.get(a);
+			if (seen === undefined) {
+				seen = new Set();
+				consulted.set(a, seen);
+			}
+			let known = this.lookup(a, b);
+			let repeated = seen.has(b);
+			seen.add(b);
+			if (known !== undefined) {
+				if (known.how === "direct") {
+					if (repeated) this.stats.reused++;
+				} else if (known.how === "mirrored") {
+					this.stats.mirrored++;
+				} else {
+					this.stats.inferred++;
+				}
+				return known.result;
+			}
+			let result = Math.sign(await compare(a, b));
+			this.stats.asked++;
+			this.record(a, b, result);
+			return result;
+		};
+	}
+
+	private edge (from: K, to: K) {
+		let out = this.before.get(from);
+		if (out === undefined) {
+			out = new Set();
+			this.before.set(from, out);
+		}
+		out.add(to);
+	}
+
+	/**
+	 * Breadth-first search for a chain of "goes before" edges from a to b, moving freely between items known to be equal.
+	 */
+	private reaches (a: K, b: K): boolean {
+		let target = this.find(b);
+		let visited = new Set<K>([this.find(a)]);
+		let queue = [this.find(a)];
+		while (queue.length > 0) {
+			let root = queue.shift() as K;
+			for (let member of this.group(root)) {
+				for (let next of this.before.get(member) ?? []) {
+					let nextRoot = this.find(next);
+					if (nextRoot === target) return true;
+					if (!visited.has(nextRoot)) {
+						visited.add(nextRoot);
+						queue.push(nextRoot);
+					}
+				}
+			}
+		}
+		return false;
+	}
+
+	private find (key: K): K {
+		let parent = this.parent.get(key);
+		if (parent === undefined || parent === key) return key;
+		let root = this.find(parent);
+		this.parent.set(key, root);
+		return root;
+	}
+
+	private group (root: K): K[] {
+		return this.members.get(root) ?? [root];
+	}
+
+	private union (a: K, b: K) {
+		let rootA = this.find(a);
+		let rootB = this.find(b);
+		if (rootA === rootB) return;
+		this.parent.set(rootB, rootA);
+		this.members.set(rootA, this.group(rootA).concat(this.group(rootB)));
+		this.members.delete(rootB);
+	}
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { alignBallots, consensus, kendallTau, readBallot } from './Consensus'
+
+// A JSON export of items a, b and c with the given ranking rows
+function exported (rows: { tier: number, index: number }[]): string {
+	return JSON.stringify({ items: [{ label: "a" }, { label: "b" }, { label: "c" }], ranking: rows });
+}
+
+describe("readBallot", () => {
+	it("reads a JSON export with its ties", async () => {
+		let ballot = await readBallot("Ann", exported([{ tier: 1, index: 2 }, { tier: 2, index: 0 }, { tier: 2, index: 1 }]));
+		expect(ballot.ranking).toEqual([[2], [0, 1]]);
+	});
+
+	it("reads a plain list best first", async () => {
+		let ballot = await readBallot("Bob", "b\na\nc\n");
+		expect(ballot.items.map(item => item.label)).toEqual(["b", "a", "c"]);
+		expect(ballot.ranking).toEqual([[0], [1], [2]]);
+	});
+
+	it("refuses a ranking that repeats an item", async () => {
+		await expect(readBallot("Ann", exported([{ tier: 1, index: 0 }, { tier: 2, index: 0 }, { tier: 3, index: 1 }, { tier: 4, index: 2 }])))
+			.rejects.toThrow(/more than once/);
+	});
+
+	it("refuses a ranking that leaves an item out", async () => {
+		await expect(readBallot("Ann", exported([{ tier: 1, index: 0 }, { tier: 2, index: 1 }]))).rejects.toThrow(/leaves/);
+	});
+});
+
+describe("alignBallots", () => {
+	it("renumbers later ballots to the first one's items", () => {
+		let first = { name: "Ann", items: [{ label: "a" }, { label: "b" }], ranking: [[0], [1]] };
+		let second = { name: "Bob", items: [{ label: "B" }, { label: "a" }], ranking: [[0], [1]] };
+		expect(alignBallots([first, second])[1].ranking).toEqual([[1], [0]]);
+	});
+
+	it("refuses ballots of different items", () => {
+		let first = { name: "Ann", items: [{ label: "a" }, { label: "b" }], ranking: [[0], [1]] };
+		let second = { name: "Bob", items: [{ label: "a" }, { label: "z" }], ranking: [[0], [1]] };
+		expect(() => alignBallots([first, second])).toThrow(/Bob does not rank the same items/);
+	});
+});
+
+describe("consensus", () => {
+	// Two of three rankers put 0 first; everyone agrees 3 comes last
+	let rankings = [[[0], [1], [2], [3]], [[0], [2], [1], [3]], [[1], [0], [2], [3]]];
+
+	it.each(["borda", "copeland", "kemeny"] as const)("puts the majority's favourite first and the last item last by %s", method => {
+		let result = consensus(4, rankings, method);
+		expect(result.ranking[0]).toEqual([0]);
+		expect(result.ranking[result.ranking.length - 1]).toEqual([3]);
+		expect(result.disagreement[3]).toBe(0);
+	});
+
+	it("counts Borda points", () => {
+		expect(consensus(4, rankings, "borda").scores).toEqual([8, 6, 4, 0]);
+	});
+
+	it("ties items whose Copeland scores are equal", () => {
+		expect(consensus(2, [[[0], [1]], [[1], [0]]], "copeland").ranking).toEqual([[0, 1]]);
+	});
+
+	it("says how well every ranker agrees with the others", () => {
+		let result = consensus(4, rankings, "borda");
+		expect(result.agreement[0][0]).toBe(1);
+		expect(result.agreement[0][1]).toBeCloseTo(2 / 3);
+	});
+});
+
+describe("kendallTau", () => {
+	it("is 1 for the same order and -1 for the reverse", () => {
+		expect(kendallTau([1, 2, 3], [1, 2, 3])).toBe(1);
+		expect(kendallTau([1, 2, 3], [3, 2, 1])).toBe(-1);
+	});
+
+	it("leaves tied pairs out", () => {
+		expect(kendallTau([1.5, 1.5, 3], [1.5, 1.5, 3])).toBe(1);
+		expect(kendallTau([1, 2, 3], [1.5, 1.5, 3])).toBeCloseTo(2 / Math.sqrt(6));
+	});
+});
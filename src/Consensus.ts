@@ -0,0 +1,275 @@
+/*
+ * Consensus of several rankings
+ *
+ * When a team ranks the same list separately, their rankings (or the comparison logs behind them) are combined into one.
+ * Three classic voting methods are offered: Borda counts places, Copeland counts head-to-head majorities, and Kemeny
+ * looks for the order that disagrees with the fewest rankers' pairwise preferences. Exact Kemeny is NP-hard, so it is
+ * approximated by starting from Borda and moving single items while that lowers the disagreement.
+ *
+ * Alongside the consensus come how much the rankers disagree about each item and how well each pair of rankers agree.
+ */
+import { duplicateKey, importList } from './Import'
+import type { Item } from './Item'
+import { placesOf } from './Ranking'
+import type { Ranking } from './Ranking'
+import { SortSession, isObject } from './SortSession'
+
+export { readBallot, alignBallots, consensus, kendallTau, CONSENSUS_METHODS }
+export type { Ballot, ConsensusMethod, ConsensusResult }
+
+type ConsensusMethod = "borda" | "copeland" | "kemeny";
+
+const CONSENSUS_METHODS: ConsensusMethod[] = ["borda", "copeland", "kemeny"];
+
+/**
+ * One ranker's ranking. The ranking holds indices into items.
+ */
+interface Ballot {
+	name: string;
+	items: Item[];
+	ranking: Ranking<number>;
+}
+
+interface ConsensusResult {
+	method: ConsensusMethod;
+	/**
+	 * The consensus, as indices into the items of the ballots passed in (after alignBallots, the first ballot's).
+	 */
+	ranking: Ranking<number>;
+	/**
+	 * Borda points or Copeland score per item, higher is better. Kemeny has no per-item score.
+	 */
+	scores: number[] | null;
+	/**
+	 * Per item, the standard deviation of the places the rankers gave it. 0 means everyone put it in the same place.
+	 */
+	disagreement: number[];
+	/**
+	 * Kendall's tau between every two rankers, from 1 (same order) to -1 (reversed).
+	 */
+	agreement: number[][];
+	/**
+	 * Kendall's tau between each ranker and the consensus.
+	 */
+	withConsensus: number[];
+}
+
+/**
+ * Reads one ranker's ranking from a file: a JSON export (ranking with tiers), a saved session (replayed to its
+ * result, so it has to be finished), or any list the import understands, taken best first. A list with a numeric
+ * "tier" column, like the CSV export, keeps its ties.
+ */
+async function readBallot (name: string, text: string): Promise<Ballot> {
+	let json: unknown = undefined;
+	try {
+		json = JSON.parse(text);
+	} catch {
+		// not JSON, so a plain list
+	}
+
+	if (isObject(json) && Array.isArray(json.items) && Array.isArray(json.ranking)) {
+		let items = json.items;
+		if (!items.every(item => isObject(item) && typeof item.label === "string")) {
+			throw new Error(name + " has an item without a label.");
+		}
+		let tiers = new Map<number, number[]>();
+		for (let row of json.ranking) {
+			if (!isObject(row) || !Number.isInteger(row.tier) || !Number.isInteger(row.index)
+				|| (row.index as number) < 0 || (row.index as number) >= items.length) {
+				throw new Error(name + " has a ranking row that does not point at one of its items.");
+			}
+			tiers.set(row.tier as number, (tiers.get(row.tier as number) ?? []).concat(row.index as number));
+		}
+		let ranking = Array.from(tiers.keys()).sort((a, b) => a - b).map(tier => tiers.get(tier) as number[]);
+		return checkBallot({ name, items: items as Item[], ranking });
+	}
+
+	if (isObject(json) && Array.isArray(json.items) && Array.isArray(json.answers)) {
+		let session = SortSession.restore(json);
+		await session.start();
+		if (session.order === null) {
+			throw new Error(name + " is a ranking that has not been finished.");
+		}
+		return checkBallot({ name, items: session.items, ranking: session.order });
+	}
+
+	let items = importList(text, { name }).items;
+	let tiers = items.map(item => Number(item.metadata?.tier));
+	if (items.length > 0 && tiers.every(tier => Number.isInteger(tier))) {
+		let ranking: Ranking<number> = [];
+		items.forEach((_, i) => {
+			if (i > 0 && tiers[i] === tiers[i - 1]) ranking[ranking.length - 1].push(i);
+			else ranking.push([i]);
+		});
+		return { name, items, ranking };
+	}
+	return { name, items, ranking: items.map((_, i) => [i]) };
+}
+
+/**
+ * Makes sure a ballot ranks every one of its items exactly once, as the methods expect.
+ */
+function checkBallot (ballot: Ballot): Ballot {
+	let counts = ballot.items.map(() => 0);
+	for (let tier of ballot.ranking) {
+		for (let item of tier) counts[item]++;
+	}
+	if (counts.some(count => count > 1)) {
+		throw new Error(ballot.name + " ranks the same item more than once.");
+	}
+	if (counts.some(count => count == 0)) {
+		throw new Error(ballot.name + " leaves some of its items out of the ranking.");
+	}
+	return ballot;
+}
+
+/**
+ * Renumbers every ballot to use the first ballot's items, matching labels the way the import matches duplicates.
+ *
+ * @throws Error if the ballots do not all rank the same items
+ */
+function alignBallots (ballots: Ballot[]): Ballot[] {
+	if (ballots.length == 0) return [];
+	let items = ballots[0].items;
+	let indexOf = new Map(items.map((item, i) => [duplicateKey(item.label), i]));
+	return ballots.map(ballot => {
+		let mapping = ballot.items.map(item => indexOf.get(duplicateKey(item.label)));
+		let missing = ballot.items.filter((_, i) => mapping[i] === undefined).map(item => item.label);
+		if (missing.length > 0 || new Set(mapping).size != items.length) {
+			let extra = missing.length > 0 ? ": " + missing.slice(0, 3).join(", ") + (missing.length > 3 ? ", ..." : "") : "";
+			throw new Error(ballot.name + " does not rank the same items as " + ballots[0].name + extra);
+		}
+		let ranking = ballot.ranking.map(tier => tier.map(i => mapping[i] as number));
+		return { name: ballot.name, items, ranking };
+	});
+}
+
+/**
+ * Combines rankings of the same items.
+ *
+ * @param itemCount how many items the rankings hold; every ranking must have each index from 0 to itemCount - 1 once
+ */
+function consensus (itemCount: number, rankings: Ranking<number>[], method: ConsensusMethod): ConsensusResult {
+	let places = rankings.map(ranking => placesOf(itemCount, ranking));
+	let preferred = preferenceMatrix(itemCount, places);
+
+	let borda = new Array<number>(itemCount).fill(0);
+	for (let place of places) {
+		place.forEach((p, item) => borda[item] += itemCount - p);
+	}
+
+	let ranking: Ranking<number>;
+	let scores: number[] | null;
+	switch (method) {
+	case "borda":
+		scores = borda;
+		ranking = byScore(scores);
+		break;
+	case "copeland":
+		scores = preferred.map((row, i) => row.reduce((score, count, j) => score + Math.sign(count - preferred[j][i]), 0));
+		ranking = byScore(scores);
+		break;
+	case "kemeny":
+		scores = null;
+		ranking = kemenyOrder(byScore(borda).reduce((all, tier) => all.concat(tier), []), preferred).map(item => [item]);
+		break;
+	}
+
+	let consensusPlaces = placesOf(itemCount, ranking);
+	return {
+		method,
+		ranking,
+		scores,
+		disagreement: Array.from({ length: itemCount }, (_, item) => standardDeviation(places.map(place => place[item]))),
+		agreement: places.map(a => places.map(b => kendallTau(a, b))),
+		withConsensus: places.map(place => kendallTau(place, consensusPlaces)),
+	};
+}
+
+/**
+ * Kendall's tau-b between two lists of places: agreeing pairs minus disagreeing pairs, scaled so that a list compared
+ * with itself gives 1 even if it has ties. A pair tied in either list counts as neither.
+ */
+function kendallTau (a: number[], b: number[]): number {
+	let score = 0;
+	let untiedA = 0;
+	let untiedB = 0;
+	for (let i = 0; i < a.length; i++) {
+		for (let j = i + 1; j < a.length; j++) {
+			score += Math.sign(a[i] - a[j]) * Math.sign(b[i] - b[j]);
+			if (a[i] != a[j]) untiedA++;
+			if (b[i] != b[j]) untiedB++;
+		}
+	}
+	return untiedA == 0 || untiedB == 0 ? 1 : score / Math.sqrt(untiedA * untiedB);
+}
+
+/**
+ * preferred[i][j] is how many rankers put i before j; a tie counts half for each side.
+ */
+function preferenceMatrix (itemCount: number, places: number[][]): number[][] {
+	let preferred = Array.from({ length: itemCount }, () => new Array<number>(itemCount).fill(0));
+	for (let place of places) {
+		for (let i = 0; i < itemCount; i++) {
+			for (let j = 0; j < itemCount; j++) {
+				if (i == j) continue;
+				if (place[i] < place[j]) preferred[i][j] += 1;
+				else if (place[i] == place[j]) preferred[i][j] += 0.5;
+			}
+		}
+	}
+	return preferred;
+}
+
+/**
+ * Highest score first; equal scores share a tier.
+ */
+function byScore (scores: number[]): Ranking<number> {
+	let order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+	let ranking: Ranking<number> = [];
+	for (let item of order) {
+		let last = ranking[ranking.length - 1];
+		if (last !== undefined && scores[last[0]] === scores[item]) last.push(item);
+		else ranking.push([item]);
+	}
+	return ranking;
+}
+
+/**
+ * Improves an order by moving one item at a time to the place where it disagrees with the fewest rankers, until no
+ * move helps. Every move lowers the total disagreement, so this ends.
+ */
+function kemenyOrder (order: number[], preferred: number[][]): number[] {
+	order = order.slice();
+	let improved = true;
+	while (improved) {
+		improved = false;
+		for (let from = 0; from < order.length; from++) {
+			let item = order[from];
+			// Change in disagreement from moving item to each place, walking outwards from where it is
+			let bestChange = 0;
+			let bestPlace = from;
+			let change = 0;
+			for (let to = from - 1; to >= 0; to--) {
+				change += preferred[order[to]][item] - preferred[item][order[to]];
+				if (change < bestChange) [bestChange, bestPlace] = [change, to];
+			}
+			change = 0;
+			for (let to = from + 1; to < order.length; to++) {
+				change += preferred[item][order[to]] - preferred[order[to]][item];
+				if (change < bestChange) [bestChange, bestPlace] = [change, to];
+			}
+			if (bestPlace != from) {
+				order.splice(bestPlace, 0, order.splice(from, 1)[0]);
+				improved = true;
+			}
+		}
+	}
+	return order;
+}
+
+function standardDeviation (values: number[]): number {
+	if (values.length == 0) return 0;
+	let mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+	return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { findContradiction } from './Consistency'
+
+describe("findContradiction", () => {
+	it("finds nothing wrong with consistent answers", () => {
+		expect(findContradiction([
+			{ left: 0, right: 1, result: -1 },
+			{ left: 1, right: 2, result: 0 },
+			{ left: 0, right: 2, result: -1 },
+		])).toBeNull();
+	});
+
+	it("gives a cycle in order, with each answer's place in the log", () => {
+		let found = findContradiction([
+			{ left: 0, right: 1, result: -1 },
+			{ left: 3, right: 4, result: -1 },
+			{ left: 1, right: 2, result: -1 },
+			{ left: 0, right: 2, result: 1 },
+		]);
+		expect(found?.map(step => step.index)).toEqual([0, 2, 3]);
+	});
+
+	it("picks the shortest of several cycles", () => {
+		let found = findContradiction([
+			{ left: 0, right: 1, result: -1 },
+			{ left: 1, right: 2, result: -1 },
+			{ left: 2, right: 3, result: -1 },
+			{ left: 3, right: 0, result: -1 },
+			{ left: 2, right: 1, result: -1 },
+		]);
+		expect(found?.map(step => step.index).sort()).toEqual([1, 4]);
+	});
+
+	it("counts equal answers as a way through but not as a contradiction on their own", () => {
+		expect(findContradiction([
+			{ left: 0, right: 1, result: 0 },
+			{ left: 1, right: 2, result: 0 },
+			{ left: 2, right: 0, result: 0 },
+		])).toBeNull();
+		expect(findContradiction([
+			{ left: 0, right: 1, result: 0 },
+			{ left: 1, right: 0, result: -1 },
+		])?.map(step => step.index).sort()).toEqual([0, 1]);
+	});
+});
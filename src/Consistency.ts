@@ -0,0 +1,89 @@
+/*
+ * Contradiction check
+ *
+ * Answers can contradict each other: A over B, B over C and C over A cannot all be true. The memo never asks a
+ * question the answers already settle, so a contradiction only gets in through a revised answer or answers brought in
+ * from a saved file. Either way the sort builds an order from whatever it was told, so the answers are checked for
+ * cycles, and the shortest cycle -- the fewest comparisons that cannot all hold -- is shown to the human to fix.
+ */
+import type { Answer } from './SortSession'
+
+export { findContradiction }
+export type { Contradiction }
+
+/**
+ * Answers that cannot all be true, in cycle order: each one's second item is the next one's first. index is the
+ * position in the answer log.
+ */
+type Contradiction = { index: number, answer: Answer }[];
+
+interface Edge {
+	to: number;
+	index: number;
+}
+
+/**
+ * Finds the shortest cycle through the answers that goes from an item back to itself and has at least one "goes
+ * before" step in it (a cycle made only of "equal" answers is no contradiction).
+ *
+ * @return the contradiction, or null if the answers are consistent
+ */
+function findContradiction (answers: Answer[]): Contradiction | null {
+	// Edges point from the item that goes first to the one after it; equal items get an edge both ways
+	let edges = new Map<number, Edge[]>();
+	function add (from: number, edge: Edge) {
+		let out = edges.get(from);
+		if (out === undefined) edges.set(from, [edge]);
+		else out.push(edge);
+	}
+	answers.forEach((answer, index) => {
+		if (answer.result < 0) add(answer.left, { to: answer.right, index });
+		else if (answer.result > 0) add(answer.right, { to: answer.left, index });
+		else {
+			add(answer.left, { to: answer.right, index });
+			add(answer.right, { to: answer.left, index });
+		}
+	});
+
+	// Every strict edge u -> v closes a cycle if v leads back to u; the shortest way back gives the shortest such cycle
+	let best: number[] | null = null;
+	answers.forEach((answer, index) => {
+		if (answer.result == 0) return;
+		let [from, to] = answer.result < 0 ? [answer.left, answer.right] : [answer.right, answer.left];
+		let path = shortestPath(edges, to, from, best === null ? Infinity : best.length - 2);
+		if (path !== null) best = [index].concat(path);
+	});
+	if (best === null) return null;
+	return (best as number[]).map(index => ({ index, answer: answers[index] }));
+}
+
+/**
+ * Breadth-first search from one item to another, giving up on paths longer than limit.
+ *
+ * @return the answer indices along the path, or null
+ */
+function shortestPath (edges: Map<number, Edge[]>, from: number, to: number, limit: number): number[] | null {
+	let via = new Map<number, { previous: number, index: number }>();
+	let frontier = [from];
+	let visited = new Set([from]);
+	for (let depth = 0; depth < limit && frontier.length > 0; depth++) {
+		let next: number[] = [];
+		for (let item of frontier) {
+			for (let edge of edges.get(item) ?? []) {
+				if (visited.has(edge.to)) continue;
+				visited.add(edge.to);
+				via.set(edge.to, { previous: item, index: edge.index });
+				if (edge.to === to) {
+					let path: number[] = [];
+					for (let at = to; at !== from; at = via.get(at)!.previous) {
+						path.unshift(via.get(at)!.index);
+					}
+					return path;
+				}
+				next.push(edge.to);
+			}
+		}
+		frontier = next;
+	}
+	return null;
+}
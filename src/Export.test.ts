@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { exportRanking } from './Export'
+import type { ExportSource } from './Export'
+import type { Item } from './Item'
+
+function source (labels: string[], order: number[][], extra: Partial<ExportSource> = {}): ExportSource {
+	return { items: labels.map(label => ({ label })), order, answers: [], ...extra };
+}
+
+describe("Markdown export", () => {
+	it("numbers the items by rank and marks ties", () => {
+		expect(exportRanking(source(["a", "b", "c"], [[2], [0, 1]]), "markdown")).toBe("1. c\n2. a *(tied)*\n2. b *(tied)*\n");
+	});
+
+	it("escapes labels so they stay plain text on one line", () => {
+		let text = exportRanking(source(["# Top", "- dash", "*bold* and _it_ [x](y)", "two\nlines", "1999. A year"], [[0], [1], [2], [3], [4]]), "markdown");
+		expect(text).toBe([
+			"1. \\# Top",
+			"2. \\- dash",
+			"3. \\*bold\\* and \\_it\\_ \\[x\\](y)",
+			"4. two lines",
+			"5. 1999\\. A year",
+			"",
+		].join("\n"));
+	});
+
+	it("refuses an unfinished ranking", () => {
+		expect(() => exportRanking(source(["a"], [[0]], { order: null }), "markdown")).toThrow();
+	});
+});
+
+describe("CSV export", () => {
+	it("writes rank, tier, item and every metadata column, quoting where needed", () => {
+		let items: Item[] = [{ label: "a, b", metadata: { price: "3" } }, { label: "c", metadata: { colour: "red" } }];
+		let text = exportRanking({ items, order: [[1], [0]], answers: [] }, "csv");
+		expect(text).toBe("rank,tier,item,price,colour\r\n1,1,c,,red\r\n2,2,\"a, b\",3,\r\n");
+	});
+});
+
+describe("JSON export", () => {
+	it("carries the ranking and every comparison with its labels", () => {
+		let data = JSON.parse(exportRanking(source(["a", "b"], [[1], [0]], { answers: [{ left: 0, right: 1, result: 1 }] }), "json"));
+		expect(data.ranking.map((row: { label: string, rank: number }) => [row.label, row.rank])).toEqual([["b", 1], ["a", 2]]);
+		expect(data.comparisons).toEqual([{ left: 0, right: 1, leftLabel: "a", rightLabel: "b", result: 1 }]);
+	});
+});
@@ -0,0 +1,154 @@
+/*
+ * Ranking export
+ *
+ * A finished ranking can leave the app as a Markdown numbered list, a CSV table (rank, tier, item and the item's
+ * metadata) or JSON. The JSON also carries every answered comparison, so another tool can check or replay how the
+ * ranking came about, and the score and uncertainty of every item when the ranking was scored. Comparisons a rule
+ * answered say which rule.
+ */
+import { ranked } from './Ranking'
+import type { Ranking } from './Ranking'
+import type { Item } from './Item'
+import type { Score } from './BradleyTerry'
+import { describeRule } from './Rules'
+import type { RuleDefinition } from './Rules'
+import type { Answer } from './SortSession'
+import type { StrategyName } from './TimSort'
+
+export { toMarkdown, toCsv, toJson, exportRanking, EXPORT_FORMATS }
+export type { ExportFormat, ExportSource, RankingExport }
+
+type ExportFormat = "markdown" | "csv" | "json";
+
+const EXPORT_FORMATS: Record<ExportFormat, { extension: string, type: string }> = {
+	markdown: { extension: "md", type: "text/markdown" },
+	csv: { extension: "csv", type: "text/csv" },
+	json: { extension: "json", type: "application/json" },
+};
+
+/**
+ * What an export is made from. A finished SortSession<Item> has all of it.
+ */
+interface ExportSource {
+	items: Item[];
+	order: Ranking<number> | null;
+	answers: Answer[];
+	strategy?: StrategyName;
+	scores?: Score<number>[] | null;
+	rules?: { definitions: RuleDefinition[] };
+	criteria?: string[];
+	weights?: number[];
+}
+
+/**
+ * The JSON export. Comparisons refer to items by their index in items, and repeat the labels for readability. A
+ * ranking on several criteria names them, and each comparison says which one it was on, by index.
+ */
+interface RankingExport {
+	version: number;
+	strategy?: StrategyName;
+	criteria?: string[];
+	weights?: number[];
+	items: Item[];
+	ranking: { rank: number, tier: number, index: number, label: string, metadata?: Record<string, string>, score?: number, uncertainty?: number }[];
+	comparisons: { left: number, right: number, leftLabel: string, rightLabel: string, result: number, criterion?: number, rule?: string }[];
+}
+
+function exportRanking (source: ExportSource, format: ExportFormat): string {
+	switch (format) {
+	case "markdown":
+		return toMarkdown(source);
+	case "csv":
+		return toCsv(source);
+	case "json":
+		return toJson(source);
+	}
+}
+
+function finishedOrder (source: ExportSource): Ranking<number> {
+	if (source.order === null) {
+		throw new Error("Only a finished ranking can be exported.");
+	}
+	return source.order;
+}
+
+/**
+ * One numbered line per item. Tied items repeat the same number and are marked as tied; Markdown renderers renumber
+ * ordered lists, so the ranks are only exact in the raw text.
+ */
+function toMarkdown (source: ExportSource): string {
+	let order = finishedOrder(source);
+	return ranked(order).map(row => {
+		let tied = order[row.tier - 1].length > 1 ? " *(tied)*" : "";
+		return row.rank + ". " + markdownText(source.items[row.item].label) + tied;
+	}).join("\n") + "\n";
+}
+
+/**
+ * A label as literal Markdown text on one line: line breaks become spaces and anything that would format it, or make it
+ * a heading or a list of its own, is escaped.
+ */
+function markdownText (label: string): string {
+	return label.replace(/\s+/g, " ").trim()
+		.replace(/[\\`*_[\]<>#|~]/g, "\\$&")
+		.replace(/^([-+])/, "\\$1")
+		.replace(/^(\d+)([.)])/, "$1\\$2");
+}
+
+function csvField (value: string | number): string {
+	let text = String(value);
+	return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+/**
+ * Columns rank, tier and item, then one column per metadata key found on any item.
+ */
+function toCsv (source: ExportSource): string {
+	let rows = ranked(finishedOrder(source));
+	let keys: string[] = [];
+	for (let item of source.items) {
+		for (let key of Object.keys(item.metadata ?? {})) {
+			if (!keys.includes(key)) keys.push(key);
+		}
+	}
+	let lines = [["rank", "tier", "item"].concat(keys).map(csvField).join(",")];
+	for (let row of rows) {
+		let item = source.items[row.item];
+		let metadata = keys.map(key => item.metadata?.[key] ?? "");
+		lines.push([row.rank, row.tier, item.label].concat(metadata).map(csvField).join(","));
+	}
+	return lines.join("\r\n") + "\r\n";
+}
+
+function toJson (source: ExportSource): string {
+	let scores = new Map((source.scores ?? []).map(score => [score.item, score]));
+	let data: RankingExport = {
+		version: 1,
+		strategy: source.strategy,
+		criteria: source.criteria?.length ? source.criteria : undefined,
+		weights: source.criteria?.length ? source.weights : undefined,
+		items: source.items,
+		ranking: ranked(finishedOrder(source)).map(row => ({
+			rank: row.rank,
+			tier: row.tier,
+			index: row.item,
+			label: source.items[row.item].label,
+			metadata: source.items[row.item].metadata,
+			score: scores.get(row.item)?.score,
+			uncertainty: scores.get(row.item)?.uncertainty,
+		})),
+		comparisons: source.answers.map(answer => {
+			let rule = answer.rule === undefined ? undefined : source.rules?.definitions[answer.rule];
+			return {
+				left: answer.left,
+				right: answer.right,
+				leftLabel: source.items[answer.left].label,
+				rightLabel: source.items[answer.right].label,
+				result: answer.result,
+				criterion: answer.criterion,
+				rule: rule && describeRule(rule),
+			};
+		}),
+	};
+	return JSON.stringify(data, null, 2) + "\n";
+}
@@ -0,0 +1,46 @@
+/*
+ * Item images
+ *
+ * Images are stored on the item as data: URLs so a saved or exported list does not depend on files that may move. To
+ * keep sessions small they are scaled down first; SVGs are kept as they are.
+ */
+export { imageToDataUrl, MAX_IMAGE_SIZE }
+
+// Longest side, in pixels, of a stored image
+const MAX_IMAGE_SIZE = 640;
+
+function readAsDataUrl (blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(blob);
+	});
+}
+
+function loadImage (url: string): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		let image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error("Not a readable image."));
+		image.src = url;
+	});
+}
+
+/**
+ * Turns an image file into a data: URL no larger than maxSize pixels on its longest side.
+ */
+async function imageToDataUrl (blob: Blob, maxSize = MAX_IMAGE_SIZE): Promise<string> {
+	let url = await readAsDataUrl(blob);
+	if (blob.type === "image/svg+xml") return url;
+
+	let image = await loadImage(url);
+	let scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+	if (scale == 1 && blob.size < 200 * 1024) return url;
+
+	let canvas = document.createElement("canvas");
+	canvas.width = Math.round(image.naturalWidth * scale);
+	canvas.height = Math.round(image.naturalHeight * scale);
+	canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+	return canvas.toDataURL("image/jpeg", 0.85);
+}
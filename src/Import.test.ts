@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { detectFormat, duplicateKey, importList, withoutDuplicates } from './Import'
+
+const labels = (text: string, name?: string) => importList(text, { name }).items.map(item => item.label);
+
+describe("importList", () => {
+	it("reads one item per line of plain text and skips empty lines", () => {
+		let result = importList("Apples\n\n  Pears  \r\nPlums\n", { name: "fruit.txt" });
+		expect(result.format).toBe("text");
+		expect(result.items.map(item => item.label)).toEqual(["Apples", "Pears", "Plums"]);
+		expect(result.emptyLines).toEqual([2]);
+	});
+
+	it("takes the label column of a CSV file and keeps the rest as metadata", () => {
+		let result = importList("price,name\n3,\"Pears, ripe\"\n1,Apples\n", { name: "fruit.csv" });
+		expect(result.columns).toEqual(["price", "name"]);
+		expect(result.items).toEqual([
+			{ label: "Pears, ripe", metadata: { price: "3" } },
+			{ label: "Apples", metadata: { price: "1" } },
+		]);
+	});
+
+	it("uses the label column it is told to", () => {
+		let result = importList("price,name\n3,Pears\n", { name: "fruit.csv", labelColumn: "price" });
+		expect(result.items.map(item => item.label)).toEqual(["3"]);
+	});
+
+	it("reads arrays of strings and of objects from JSON", () => {
+		expect(labels("[\"a\", \"b\"]", "list.json")).toEqual(["a", "b"]);
+		expect(labels("[{ \"title\": \"a\", \"year\": 1999 }]", "list.json")).toEqual(["a"]);
+	});
+
+	it("reads the list entries of Markdown and drops task boxes", () => {
+		expect(labels("# Fruit\n\nSome text\n- [x] Apples\n* Pears\n1. Plums\n", "list.md")).toEqual(["Apples", "Pears", "Plums"]);
+	});
+
+	it("reports duplicates without case and extra whitespace", () => {
+		let result = importList("Apples\napples \nPears\nAPPLES", { name: "fruit.txt" });
+		expect(result.duplicates).toEqual([{ label: "Apples", lines: [1, 2, 4] }]);
+		expect(withoutDuplicates(result.items).map(item => item.label)).toEqual(["Apples", "Pears"]);
+	});
+});
+
+describe("detectFormat", () => {
+	it("goes by the file name, then by the contents", () => {
+		expect(detectFormat("list.csv", "a")).toBe("csv");
+		expect(detectFormat("list.md", "a")).toBe("markdown");
+		expect(detectFormat("", "[\"a\"]")).toBe("json");
+	});
+});
+
+describe("duplicateKey", () => {
+	it("ignores case and runs of whitespace", () => {
+		expect(duplicateKey("  Big   Apple ")).toBe(duplicateKey("big apple"));
+	});
+});
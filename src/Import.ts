@@ -0,0 +1,316 @@
+/*
+ * List import
+ *
+ * Turns a file into items: plain text (one item per line), CSV (one item per row, one column is the label and the rest
+ * is kept as metadata), JSON (an array of strings or objects) and Markdown (the bullet and numbered list entries). Empty
+ * entries are dropped and duplicates are reported, so both can be shown before any question is asked.
+ */
+import { createItem } from './Item'
+import type { Item } from './Item'
+
+export { importList, detectFormat, withoutDuplicates, duplicateKey, IMPORT_EXTENSIONS }
+export type { ImportFormat, ImportOptions, ImportResult, Duplicate }
+
+type ImportFormat = "text" | "csv" | "json" | "markdown";
+
+const IMPORT_EXTENSIONS = ["txt", "csv", "tsv", "json", "md", "markdown"];
+
+// Column or field names that are taken as the label when none is chosen
+const LABEL_NAMES = ["label", "name", "title", "item"];
+
+interface ImportOptions {
+	format?: ImportFormat;
+	/**
+	 * File name, used to guess the format when none is given.
+	 */
+	name?: string;
+	/**
+	 * CSV column (header text or 0-based index) or JSON field that holds the label.
+	 */
+	labelColumn?: string | number;
+}
+
+interface Duplicate {
+	label: string;
+	lines: number[];
+}
+
+interface ImportResult {
+	format: ImportFormat;
+	items: Item[];
+	/**
+	 * CSV headers or JSON field names, to choose the label column from. Empty for the other formats.
+	 */
+	columns: string[];
+	/**
+	 * Labels that occur more than once, compared without case and extra whitespace. Lines are 1-based line numbers,
+	 * or array positions for JSON.
+	 */
+	duplicates: Duplicate[];
+	/**
+	 * Where empty entries were skipped, numbered like the duplicates.
+	 */
+	emptyLines: number[];
+}
+
+interface Entry {
+	item: Item;
+	line: number;
+}
+
+/**
+ * Parses a list.
+ *
+ * @param text the file contents
+ * @param options format and label column; the format is guessed from the name and contents if not given
+ */
+function importList (text: string, options: ImportOptions = {}): ImportResult {
+	let format = options.format ?? detectFormat(options.name ?? "", text);
+	let columns: string[] = [];
+	let entries: Entry[];
+	switch (format) {
+	case "csv": {
+		let table = parseCsv(text, delimiterFor(options.name ?? "", text));
+		columns = table.columns;
+		entries = csvEntries(table, options.labelColumn);
+		break;
+	}
+	case "json": {
+		let parsed = jsonEntries(text, options.labelColumn);
+		columns = parsed.columns;
+		entries = parsed.entries;
+		break;
+	}
+	case "markdown":
+		entries = markdownEntries(text);
+		break;
+	default:
+		entries = textEntries(text);
+	}
+
+	let emptyLines = entries.filter(entry => entry.item.label === "").map(entry => entry.line);
+	entries = entries.filter(entry => entry.item.label !== "");
+	return {
+		format,
+		items: entries.map(entry => entry.item),
+		columns,
+		duplicates: findDuplicates(entries),
+		emptyLines,
+	};
+}
+
+/**
+ * Guesses the format from the file extension, falling back to looking at the text.
+ */
+function detectFormat (name: string, text: string): ImportFormat {
+	let extension = name.toLowerCase().split(".").pop();
+	switch (extension) {
+	case "csv":
+	case "tsv":
+		return "csv";
+	case "json":
+		return "json";
+	case "md":
+	case "markdown":
+		return "markdown";
+	case "txt":
+		return "text";
+	}
+	let trimmed = text.trim();
+	if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "json";
+	// Mostly list entries and headings reads as Markdown; a stray bullet in a plain list does not
+	let lines = trimmed.split(/\r?\n/).filter(line => line.trim() !== "");
+	if (lines.filter(isMarkdownLine).length * 2 > lines.length) return "markdown";
+	return "text";
+}
+
+/**
+ * Keeps the first of every set of duplicate labels.
+ */
+function withoutDuplicates (items: Item[]): Item[] {
+	let seen = new Set<string>();
+	return items.filter(item => {
+		let key = duplicateKey(item.label);
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/**
+ * What two labels have to share to count as duplicates.
+ */
+function duplicateKey (label: string): string {
+	return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function findDuplicates (entries: Entry[]): Duplicate[] {
+	let byKey = new Map<string, Duplicate>();
+	for (let entry of entries) {
+		let key = duplicateKey(entry.item.label);
+		let duplicate = byKey.get(key);
+		if (duplicate === undefined) byKey.set(key, { label: entry.item.label, lines: [entry.line] });
+		else duplicate.lines.push(entry.line);
+	}
+	return Array.from(byKey.values()).filter(duplicate => duplicate.lines.length > 1);
+}
+
+function splitLines (text: string): string[] {
+	let lines = text.split(/\r?\n/);
+	// A trailing newline does not make an empty last line
+	if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+function textEntries (text: string): Entry[] {
+	return splitLines(text).map((line, i) => ({ item: createItem(line.trim()), line: i + 1 }));
+}
+
+function isMarkdownLine (line: string): boolean {
+	return /^\s*([-*+]|\d+[.)])(\s|$)/.test(line) || /^\s*#/.test(line);
+}
+
+/**
+ * Every bullet (-, *, +) and numbered (1. or 1)) list entry becomes an item, with task list checkboxes removed.
+ * Headings, paragraphs and blank lines are not list entries and are skipped without being reported.
+ */
+function markdownEntries (text: string): Entry[] {
+	let entries: Entry[] = [];
+	splitLines(text).forEach((line, i) => {
+		let match = /^\s*(?:[-*+]|\d+[.)])(?:\s+(.*))?$/.exec(line);
+		if (match === null) return;
+		let label = (match[1] ?? "").replace(/^\[[ xX]\]\s*/, "").trim();
+		entries.push({ item: createItem(label), line: i + 1 });
+	});
+	return entries;
+}
+
+interface CsvTable {
+	columns: string[];
+	rows: { cells: string[], line: number }[];
+}
+
+function delimiterFor (name: string, text: string): string {
+	if (name.toLowerCase().endsWith(".tsv")) return "\t";
+	let header = text.split(/\r?\n/, 1)[0];
+	return header.includes("\t") && !header.includes(",") ? "\t" : ",";
+}
+
+/**
+ * RFC 4180 CSV: fields may be quoted, quoted fields may contain the delimiter, newlines and doubled quotes. The first
+ * row is the header.
+ */
+function parseCsv (text: string, delimiter: string): CsvTable {
+	let records: { cells: string[], line: number }[] = [];
+	let cells: string[] = [];
+	let cell = "";
+	let quoted = false;
+	let line = 1;
+	let recordLine = 1;
+	for (let i = 0; i < text.length; i++) {
+		let c = text[i];
+		if (quoted) {
+			if (c == '"' && text[i + 1] == '"') {
+				cell += '"';
+				i++;
+			} else if (c == '"') {
+				quoted = false;
+			} else {
+				if (c == "\n") line++;
+				cell += c;
+			}
+		} else if (c == '"' && cell === "") {
+			quoted = true;
+		} else if (c == delimiter) {
+			cells.push(cell);
+			cell = "";
+		} else if (c == "\n" || c == "\r") {
+			if (c == "\r" && text[i + 1] == "\n") i++;
+			cells.push(cell);
+			records.push({ cells, line: recordLine });
+			cells = [];
+			cell = "";
+			recordLine = ++line;
+		} else {
+			cell += c;
+		}
+	}
+	if (cell !== "" || cells.length > 0) {
+		cells.push(cell);
+		records.push({ cells, line: recordLine });
+	}
+
+	let header = records.shift();
+	return {
+		columns: header === undefined ? [] : header.cells.map(column => column.trim()),
+		rows: records,
+	};
+}
+
+function columnIndex (columns: string[], labelColumn: string | number | undefined): number {
+	if (typeof labelColumn === "number") {
+		if (labelColumn < 0 || labelColumn >= columns.length) throw new Error("There is no column " + labelColumn + ".");
+		return labelColumn;
+	}
+	if (labelColumn !== undefined) {
+		let index = columns.indexOf(labelColumn);
+		if (index < 0) throw new Error("There is no column called " + labelColumn + ".");
+		return index;
+	}
+	let index = columns.findIndex(column => LABEL_NAMES.includes(column.toLowerCase()));
+	return index < 0 ? 0 : index;
+}
+
+function csvEntries (table: CsvTable, labelColumn: string | number | undefined): Entry[] {
+	let label = columnIndex(table.columns, labelColumn);
+	return table.rows.map(row => {
+		let metadata: Record<string, string> = {};
+		table.columns.forEach((column, i) => {
+			let value = (row.cells[i] ?? "").trim();
+			if (i != label && value !== "") metadata[column || "column " + (i + 1)] = value;
+		});
+		return { item: createItem((row.cells[label] ?? "").trim(), metadata), line: row.line };
+	});
+}
+
+/**
+ * An array of strings, numbers or objects. Objects need a label field (chosen, or one of the usual names); their other
+ * fields become metadata. An object with an "items" array is read as that array.
+ */
+function jsonEntries (text: string, labelColumn: string | number | undefined): { columns: string[], entries: Entry[] } {
+	let data: unknown = JSON.parse(text);
+	if (data !== null && typeof data === "object" && !Array.isArray(data) && Array.isArray((data as { items?: unknown }).items)) {
+		data = (data as { items: unknown[] }).items;
+	}
+	if (!Array.isArray(data)) {
+		throw new Error("A JSON list has to be an array.");
+	}
+
+	let columns: string[] = [];
+	for (let element of data) {
+		if (element !== null && typeof element === "object" && !Array.isArray(element)) {
+			for (let key of Object.keys(element)) {
+				if (!columns.includes(key)) columns.push(key);
+			}
+		}
+	}
+	let labelKey = typeof labelColumn === "number" ? columns[labelColumn] : labelColumn;
+	if (labelKey === undefined) {
+		labelKey = columns.find(column => LABEL_NAMES.includes(column.toLowerCase()));
+	}
+
+	let entries = data.map((element: unknown, i: number) => {
+		if (element === null || typeof element !== "object" || Array.isArray(element)) {
+			return { item: createItem(element === null ? "" : String(element).trim()), line: i + 1 };
+		}
+		let fields = element as Record<string, unknown>;
+		let metadata: Record<string, string> = {};
+		for (let [key, value] of Object.entries(fields)) {
+			if (key === labelKey || value === null || value === undefined) continue;
+			metadata[key] = typeof value === "object" ? JSON.stringify(value) : String(value);
+		}
+		let label = labelKey === undefined || fields[labelKey] === undefined || fields[labelKey] === null ? "" : String(fields[labelKey]);
+		return { item: createItem(label.trim(), metadata), line: i + 1 };
+	});
+	return { columns, entries };
+}
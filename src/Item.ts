@@ -0,0 +1,46 @@
+/*
+ * List items
+ *
+ * What the sorter ranks. The label is what the buttons show. Subtitle, note, link and image are optional extras added in
+ * the list editor and shown under the label; metadata carries whatever else came with an imported item (the other
+ * columns of a CSV row, the other fields of a JSON object) so it can be written back out with the results.
+ *
+ * Items also arrive in files and shared links, so links and images are only used with schemes that cannot run anything.
+ */
+export { createItem, isSafeLink, isSafeImage }
+export type { Item }
+
+interface Item {
+	label: string;
+	metadata?: Record<string, string>;
+	subtitle?: string;
+	/**
+	 * Markdown, see renderMarkdown.
+	 */
+	note?: string;
+	/**
+	 * An http, https or mailto URL, see isSafeLink.
+	 */
+	link?: string;
+	/**
+	 * A data: URL, so the image travels with the item wherever it is saved, or an http or https one.
+	 */
+	image?: string;
+}
+
+const LINK_SCHEMES = /^(https?:|mailto:)/i;
+const IMAGE_SCHEMES = /^(data:image\/|https?:)/i;
+
+function isSafeLink (url: string): boolean {
+	return LINK_SCHEMES.test(url);
+}
+
+function isSafeImage (url: string): boolean {
+	return IMAGE_SCHEMES.test(url);
+}
+
+function createItem (label: string, metadata?: Record<string, string>): Item {
+	let item: Item = { label };
+	if (metadata !== undefined && Object.keys(metadata).length > 0) item.metadata = metadata;
+	return item;
+}
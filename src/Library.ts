@@ -0,0 +1,194 @@
+/*
+ * Session library
+ *
+ * Every ranking is saved as it goes, so nothing is lost if the window closes, and the saved ones can be listed,
+ * resumed, renamed, duplicated and deleted. The desktop build keeps them as files in the app data directory through the
+ * Rust commands in src-tauri/src/library.rs; the browser build keeps them in IndexedDB, or in localStorage where
+ * IndexedDB is not available.
+ */
+import { invoke } from '@tauri-apps/api/tauri'
+import type { Item } from './Item'
+import { isTauri } from './Platform'
+import type { SessionSnapshot, SortSession } from './SortSession'
+
+export { sessionLibrary, describeSession, newSessionId, copyName }
+export type { SessionLibrary, SessionMeta }
+
+/**
+ * What the library shows about a session without loading it. updated is in milliseconds since the epoch.
+ */
+interface SessionMeta {
+	id: string;
+	name: string;
+	updated: number;
+	items: number;
+	answers: number;
+	done: boolean;
+}
+
+interface SessionLibrary {
+	/**
+	 * All saved sessions, most recently changed first.
+	 */
+	list (): Promise<SessionMeta[]>;
+	load (id: string): Promise<SessionSnapshot<Item>>;
+	/**
+	 * Creates or overwrites the session with meta.id.
+	 */
+	save (meta: SessionMeta, session: SessionSnapshot<Item>): Promise<void>;
+	rename (id: string, name: string): Promise<void>;
+	duplicate (id: string, name: string): Promise<SessionMeta>;
+	remove (id: string): Promise<void>;
+}
+
+interface StoredSession {
+	meta: SessionMeta;
+	session: SessionSnapshot<Item>;
+}
+
+const DATABASE = "qualitative-sort";
+const STORE = "sessions";
+const STORAGE_PREFIX = "qualitative-sort.session.";
+
+let library: SessionLibrary | null = null;
+
+/**
+ * The library for wherever the app is running.
+ */
+function sessionLibrary (): SessionLibrary {
+	if (library === null) {
+		if (isTauri()) library = tauriLibrary();
+		else if (typeof indexedDB !== "undefined") library = indexedDbLibrary();
+		else library = storedLibrary(localStorageBackend());
+	}
+	return library;
+}
+
+function describeSession (id: string, name: string, session: SortSession<Item>): SessionMeta {
+	return {
+		id,
+		name,
+		updated: Date.now(),
+		items: session.items.length,
+		answers: session.answers.length,
+		done: session.done,
+	};
+}
+
+/**
+ * A random id, safe to use as a file name.
+ */
+function newSessionId (): string {
+	return Date.now().toString(36) + "-" + Math.random().toString(36).slice(2, 10);
+}
+
+function copyName (name: string): string {
+	return name + " (copy)";
+}
+
+function tauriLibrary (): SessionLibrary {
+	return {
+		list: () => invoke<SessionMeta[]>("list_sessions"),
+		load: id => invoke<SessionSnapshot<Item>>("load_session", { id }),
+		save: (meta, session) => invoke("save_session", { meta, session }),
+		rename: (id, name) => invoke("rename_session", { id, name }),
+		duplicate: (id, name) => invoke<SessionMeta>("duplicate_session", { id, newId: newSessionId(), name }),
+		remove: id => invoke("delete_session", { id }),
+	};
+}
+
+/**
+ * The few operations the browser libraries differ in. The rest is built on top of them by storedLibrary.
+ */
+interface StorageBackend {
+	all (): Promise<StoredSession[]>;
+	get (id: string): Promise<StoredSession | undefined>;
+	put (stored: StoredSession): Promise<void>;
+	remove (id: string): Promise<void>;
+}
+
+function storedLibrary (backend: StorageBackend): SessionLibrary {
+	async function get (id: string): Promise<StoredSession> {
+		let stored = await backend.get(id);
+		if (stored === undefined) {
+			throw new Error("There is no saved session " + id + ".");
+		}
+		return stored;
+	}
+
+	return {
+		list: async () => (await backend.all()).map(stored => stored.meta).sort((a, b) => b.updated - a.updated),
+		load: async id => (await get(id)).session,
+		save: (meta, session) => backend.put({ meta, session }),
+		rename: async (id, name) => {
+			let stored = await get(id);
+			await backend.put({ ...stored, meta: { ...stored.meta, name } });
+		},
+		duplicate: async (id, name) => {
+			let stored = await get(id);
+			let meta = { ...stored.meta, id: newSessionId(), name, updated: Date.now() };
+			await backend.put({ meta, session: stored.session });
+			return meta;
+		},
+		remove: id => backend.remove(id),
+	};
+}
+
+function indexedDbLibrary (): SessionLibrary {
+	let database: Promise<IDBDatabase> | null = null;
+
+	function open (): Promise<IDBDatabase> {
+		if (database === null) {
+			database = new Promise((resolve, reject) => {
+				let request = indexedDB.open(DATABASE, 1);
+				request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "meta.id" });
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+		return database;
+	}
+
+	async function transaction<R> (mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+		let store = (await open()).transaction(STORE, mode).objectStore(STORE);
+		return new Promise((resolve, reject) => {
+			let request = work(store);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	return storedLibrary({
+		all: () => transaction("readonly", store => store.getAll() as IDBRequest<StoredSession[]>),
+		get: id => transaction("readonly", store => store.get(id) as IDBRequest<StoredSession | undefined>),
+		put: async stored => {
+			// Vue proxies cannot be cloned into IndexedDB, plain JSON can
+			await transaction("readwrite", store => store.put(JSON.parse(JSON.stringify(stored))));
+		},
+		remove: async id => {
+			await transaction("readwrite", store => store.delete(id));
+		},
+	});
+}
+
+function localStorageBackend (): StorageBackend {
+	function read (key: string): StoredSession | undefined {
+		let text = localStorage.getItem(key);
+		return text === null ? undefined : JSON.parse(text);
+	}
+
+	return {
+		all: async () => {
+			let sessions: StoredSession[] = [];
+			for (let i = 0; i < localStorage.length; i++) {
+				let key = localStorage.key(i);
+				let stored = key?.startsWith(STORAGE_PREFIX) ? read(key) : undefined;
+				if (stored !== undefined) sessions.push(stored);
+			}
+			return sessions;
+		},
+		get: async id => read(STORAGE_PREFIX + id),
+		put: async stored => localStorage.setItem(STORAGE_PREFIX + stored.meta.id, JSON.stringify(stored)),
+		remove: async id => localStorage.removeItem(STORAGE_PREFIX + id),
+	};
+}
@@ -0,0 +1,73 @@
+/*
+ * Notes in Markdown
+ *
+ * Item notes are written in a small part of Markdown: paragraphs, line breaks, bulleted and numbered lists, headings,
+ * **bold**, *italic*, `code` and [links](https://example.com). That is all a note about a list item needs, and small
+ * enough to render here without a library. Everything else is shown as the text it is: the note is HTML-escaped before
+ * any markup is added, and links only go to http, https and mailto URLs, so an imported list cannot inject anything.
+ */
+import { isSafeLink } from './Item'
+
+export { renderMarkdown }
+
+function escapeHtml (text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+/**
+ * Marks up one line of escaped text. Code spans are taken out first so nothing inside them is formatted.
+ */
+function renderInline (escaped: string): string {
+	let code: string[] = [];
+	let text = escaped.replace(/`([^`]+)`/g, (_, inner: string) => {
+		code.push(inner);
+		return "\u0000" + (code.length - 1) + "\u0000";
+	});
+	text = text
+		.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (whole, label: string, url: string) =>
+			isSafeLink(url) ? `<a href="${url}">${label}</a>` : whole)
+		.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+		.replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a?: string, b?: string) => `<em>${a ?? b}</em>`);
+	return text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => `<code>${code[Number(index)]}</code>`);
+}
+
+/**
+ * @param text a note in Markdown
+ * @return HTML that is safe to put in the page
+ */
+function renderMarkdown (text: string): string {
+	let html: string[] = [];
+	let paragraph: string[] = [];
+	let list: { tag: "ul" | "ol", items: string[] } | null = null;
+
+	let flush = () => {
+		if (paragraph.length > 0) html.push(`<p>${paragraph.join("<br>")}</p>`);
+		paragraph = [];
+		if (list !== null) html.push(`<${list.tag}>${list.items.map(item => `<li>${item}</li>`).join("")}</${list.tag}>`);
+		list = null;
+	};
+
+	for (let line of escapeHtml(text).split(/\r?\n/)) {
+		let heading = /^(#{1,6})\s+(.*)$/.exec(line);
+		let bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+		let numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+		if (line.trim() === "") {
+			flush();
+		} else if (heading !== null) {
+			flush();
+			// Headings in a note are small; the item's label is the real title
+			let level = Math.min(6, heading[1].length + 3);
+			html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+		} else if (bullet !== null || numbered !== null) {
+			let tag: "ul" | "ol" = bullet !== null ? "ul" : "ol";
+			if (paragraph.length > 0 || (list !== null && list.tag !== tag)) flush();
+			if (list === null) list = { tag, items: [] };
+			list.items.push(renderInline((bullet ?? numbered)![1]));
+		} else {
+			if (list !== null) flush();
+			paragraph.push(renderInline(line.trim()));
+		}
+	}
+	flush();
+	return html.join("");
+}
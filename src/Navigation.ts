@@ -0,0 +1,83 @@
+/*
+ * Screen navigation
+ *
+ * The app is one page that shows one screen at a time. Every screen change is also pushed onto the browser history, so
+ * the back and forward buttons move between screens. A guard can veto leaving a screen, which is how an unsaved ranking
+ * is protected from a stray click on back, and the same guard is asked before the page is closed or reloaded.
+ */
+import { onBeforeUnmount, onMounted, ref } from 'vue'
+import type { Ref } from 'vue'
+
+export { useNavigation }
+export type { Screen, Navigation }
+
+type Screen = "welcome" | "build" | "compare" | "paused" | "results" | "consensus" | "library";
+
+interface Navigation {
+	screen: Ref<Screen>;
+	/**
+	 * Shows a screen and adds it to the history. Returns false if the guard said no.
+	 */
+	go (screen: Screen): boolean;
+	/**
+	 * Shows a screen in place of the current one, without a new history entry. The guard is not asked.
+	 */
+	replace (screen: Screen): void;
+	back (): void;
+}
+
+/**
+ * @param guard called with the screen about to be left and the one about to be shown; returning a message asks the user
+ *        to confirm with it, returning null lets the change through. Called with to == null when the page is closing.
+ */
+function useNavigation (initial: Screen, guard: (from: Screen, to: Screen | null) => string | null): Navigation {
+	let screen = ref<Screen>(initial);
+
+	function allowed (to: Screen | null): boolean {
+		let message = guard(screen.value, to);
+		return message === null || window.confirm(message);
+	}
+
+	function go (to: Screen): boolean {
+		if (to === screen.value) return true;
+		if (!allowed(to)) return false;
+		screen.value = to;
+		history.pushState({ screen: to }, "");
+		return true;
+	}
+
+	function replace (to: Screen) {
+		screen.value = to;
+		history.replaceState({ screen: to }, "");
+	}
+
+	function popped (event: PopStateEvent) {
+		let to: Screen = event.state?.screen ?? initial;
+		if (to === screen.value) return;
+		if (allowed(to)) {
+			screen.value = to;
+		} else {
+			// The browser has already moved; put the screen we stayed on back on top
+			history.pushState({ screen: screen.value }, "");
+		}
+	}
+
+	function unloading (event: BeforeUnloadEvent) {
+		if (guard(screen.value, null) !== null) {
+			event.preventDefault();
+			event.returnValue = "";
+		}
+	}
+
+	onMounted(() => {
+		history.replaceState({ screen: screen.value }, "");
+		window.addEventListener("popstate", popped);
+		window.addEventListener("beforeunload", unloading);
+	});
+	onBeforeUnmount(() => {
+		window.removeEventListener("popstate", popped);
+		window.removeEventListener("beforeunload", unloading);
+	});
+
+	return { screen, go, replace, back: () => history.back() };
+}
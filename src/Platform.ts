@@ -0,0 +1,107 @@
+/*
+ * Desktop (Tauri) or browser
+ *
+ * The same build runs inside the Tauri window and as a plain web page. Anything that touches files has to check which
+ * one it is in, because the Tauri APIs only exist in the former.
+ */
+import { open, save } from '@tauri-apps/api/dialog'
+import { readBinaryFile, readTextFile, writeTextFile } from '@tauri-apps/api/fs'
+import { open as openWithShell } from '@tauri-apps/api/shell'
+import { isSafeLink } from './Item'
+
+export { isTauri, openTextFileDialog, openTextFilesDialog, openImageDialog, saveTextFile, openLink }
+export type { TextFile }
+
+const IMAGE_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+};
+
+interface TextFile {
+	name: string;
+	text: string;
+}
+
+function isTauri (): boolean {
+	return typeof window !== "undefined" && "__TAURI_IPC__" in window;
+}
+
+/**
+ * Asks for a file with the native open dialog and reads it. Only works in the Tauri build.
+ *
+ * @param extensions file extensions to offer, without the dot
+ * @return the file, or null if the dialog was cancelled
+ */
+async function openTextFileDialog (extensions: string[]): Promise<TextFile | null> {
+	let path = await open({ multiple: false, filters: [{ name: "Lists", extensions }] });
+	if (path === null || Array.isArray(path)) return null;
+	let text = await readTextFile(path);
+	return { name: path.split(/[\\/]/).pop() ?? path, text };
+}
+
+/**
+ * Like openTextFileDialog, but lets the user pick several files at once.
+ *
+ * @return the files, empty if the dialog was cancelled
+ */
+async function openTextFilesDialog (extensions: string[]): Promise<TextFile[]> {
+	let paths = await open({ multiple: true, filters: [{ name: "Lists", extensions }] });
+	if (paths === null) return [];
+	let files: TextFile[] = [];
+	for (let path of Array.isArray(paths) ? paths : [paths]) {
+		files.push({ name: path.split(/[\\/]/).pop() ?? path, text: await readTextFile(path) });
+	}
+	return files;
+}
+
+/**
+ * Asks for an image with the native open dialog and reads it. Only works in the Tauri build.
+ *
+ * @return the image, or null if the dialog was cancelled
+ */
+async function openImageDialog (): Promise<Blob | null> {
+	let path = await open({ multiple: false, filters: [{ name: "Images", extensions: Object.keys(IMAGE_TYPES) }] });
+	if (path === null || Array.isArray(path)) return null;
+	let extension = path.toLowerCase().split(".").pop() ?? "";
+	return new Blob([await readBinaryFile(path)], { type: IMAGE_TYPES[extension] ?? "" });
+}
+
+/**
+ * Opens a link in the browser: the system one in the Tauri build, which would otherwise open it in the app's own window,
+ * and a new tab in the browser. Anything but an http, https or mailto link is ignored.
+ */
+async function openLink (url: string) {
+	if (!isSafeLink(url)) return;
+	if (isTauri()) await openWithShell(url);
+	else window.open(url, "_blank", "noopener");
+}
+
+/**
+ * Saves text to a file: through the native save dialog in the Tauri build, as a download in the browser.
+ *
+ * @param name suggested file name
+ * @param text file contents
+ * @param type MIME type for the download
+ * @return false if the save dialog was cancelled
+ */
+async function saveTextFile (name: string, text: string, type = "text/plain"): Promise<boolean> {
+	if (isTauri()) {
+		let extension = name.split(".").pop() ?? "";
+		let path = await save({ defaultPath: name, filters: [{ name: extension.toUpperCase(), extensions: [extension] }] });
+		// Resolves to null when cancelled, whatever its type says
+		if (!path) return false;
+		await writeTextFile(path, text);
+		return true;
+	}
+	let url = URL.createObjectURL(new Blob([text], { type }));
+	let link = document.createElement("a");
+	link.href = url;
+	link.download = name;
+	link.click();
+	URL.revokeObjectURL(url);
+	return true;
+}
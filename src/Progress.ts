@@ -0,0 +1,109 @@
+/*
+ * Remaining-comparison estimates
+ *
+ * Every strategy can report, before each comparison, how many comparisons it may still need: a best case (the answers
+ * keep confirming the current order) and a worst case. The helpers here do the counting for the building blocks the
+ * strategies share -- binary searches, binary insertion of a run, timsort's merges.
+ */
+export { searchCost, insertionCost, mergeCost, mergeCollapseCost, fordJohnsonCost, addCost, lessMade, NO_COST }
+export type { Estimate, ProgressListener }
+
+/**
+ * Comparisons still to come. Answers the memo can infer are still counted, so the human is usually asked fewer.
+ */
+interface Estimate {
+	best: number;
+	worst: number;
+}
+
+type ProgressListener = (remaining: Estimate) => void;
+
+const NO_COST: Estimate = { best: 0, worst: 0 };
+
+function addCost (a: Estimate, b: Estimate): Estimate {
+	return { best: a.best + b.best, worst: a.worst + b.worst };
+}
+
+/**
+ * An estimate for some work, less the comparisons already made on it. Never below zero.
+ */
+function lessMade (cost: Estimate, made: number): Estimate {
+	return { best: Math.max(0, cost.best - made), worst: Math.max(0, cost.worst - made) };
+}
+
+/**
+ * A binary search for the insertion point among n sorted items.
+ */
+function searchCost (n: number): Estimate {
+	if (n <= 0) return NO_COST;
+	return { best: Math.floor(Math.log2(n + 1)), worst: Math.ceil(Math.log2(n + 1)) };
+}
+
+/**
+ * Binary inserting items one by one into a sorted prefix that grows from `from` to `to` items.
+ */
+function insertionCost (from: number, to: number): Estimate {
+	let cost = NO_COST;
+	for (let n = Math.max(from, 0); n < to; n++) {
+		cost = addCost(cost, searchCost(n));
+	}
+	return cost;
+}
+
+/**
+ * Merging two adjacent sorted runs. At best galloping finds that they are already in order; at worst every element is
+ * compared once.
+ */
+function mergeCost (len1: number, len2: number): Estimate {
+	if (len1 == 0 || len2 == 0) return NO_COST;
+	return { best: searchCost(len1).best, worst: len1 + len2 - 1 };
+}
+
+/**
+ * The merges timsort will still do: upcoming runs are pushed onto the stack one at a time and merged by the same rules
+ * as mergeCollapse, then everything left is merged by mergeForceCollapse.
+ *
+ * @param stack lengths of the runs on the pending-run stack, bottom first
+ * @param upcoming lengths of the runs still to be pushed, in order
+ */
+function mergeCollapseCost (stack: number[], upcoming: number[]): Estimate {
+	let runLen = stack.slice();
+	let cost = NO_COST;
+	function mergeAt (i: number) {
+		cost = addCost(cost, mergeCost(runLen[i], runLen[i + 1]));
+		runLen.splice(i, 2, runLen[i] + runLen[i + 1]);
+	}
+	for (let len of upcoming) {
+		runLen.push(len);
+		while (runLen.length > 1) {
+			let n = runLen.length - 2;
+			if (n > 0 && runLen[n - 1] <= runLen[n] + runLen[n + 1]) {
+				if (runLen[n - 1] < runLen[n + 1]) n--;
+				mergeAt(n);
+			} else if (runLen[n] <= runLen[n + 1]) {
+				mergeAt(n);
+			} else {
+				break;
+			}
+		}
+	}
+	while (runLen.length > 1) {
+		let n = runLen.length - 2;
+		if (n > 0 && runLen[n - 1] < runLen[n + 1]) n--;
+		mergeAt(n);
+	}
+	return cost;
+}
+
+/**
+ * Total comparisons of merge-insertion on n items. The worst case is the known exact count, sum of ceil(log2(3k/4));
+ * the best case takes the short path of every binary search.
+ */
+function fordJohnsonCost (n: number): Estimate {
+	let cost = NO_COST;
+	for (let k = 1; k <= n; k++) {
+		let bits = Math.log2(3 * k / 4);
+		cost = addCost(cost, { best: Math.max(0, Math.floor(bits)), worst: Math.max(0, Math.ceil(bits)) });
+	}
+	return cost;
+}
@@ -0,0 +1,85 @@
+/*
+ * Human comparator
+ *
+ * The sorts want a comparator that returns a promise; the buttons produce clicks. A PromptComparator sits in between:
+ * compare() puts the pair up as the current question and returns a promise that stays pending until answer() or
+ * choose() is called with the human's verdict.
+ */
+export { PromptComparator, SIDE_RESULTS }
+export type { Side, Prompt }
+
+/**
+ * The three buttons in Buttons.vue.
+ */
+type Side = "left" | "neither" | "right";
+
+// Picking a side means that side goes first
+const SIDE_RESULTS: Record<Side, number> = {
+	left: -1,
+	neither: 0,
+	right: 1,
+};
+
+interface Prompt<T> {
+	left: T;
+	right: T;
+}
+
+class PromptComparator<T> {
+	question: Prompt<T> | null = null;
+
+	private pending: ((result: number) => void) | null = null;
+
+	/**
+	 * @param onAsk called whenever a new question is waiting
+	 */
+	constructor (private onAsk: (question: Prompt<T>) => void = () => {}) {}
+
+	/**
+	 * The async comparator, to hand to a sort as (a, b) => prompt.compare(a, b). Only one question can wait at a time.
+	 *
+	 * A method rather than a bound function, so that called through a Vue reactive proxy it sets the question on the
+	 * proxy and the screens see it.
+	 */
+	compare (left: T, right: T): Promise<number> {
+		if (this.pending !== null) {
+			return Promise.reject(new Error("A question is already waiting for an answer."));
+		}
+		return new Promise(resolve => {
+			this.pending = resolve;
+			this.question = { left, right };
+			this.onAsk(this.question);
+		});
+	}
+
+	get waiting (): boolean {
+		return this.pending !== null;
+	}
+
+	/**
+	 * Resolves the waiting question.
+	 *
+	 * @param result negative if the left item goes first, positive if the right one does, 0 if neither
+	 */
+	answer (result: number) {
+		let resolve = this.pending;
+		if (resolve === null) {
+			throw new Error("There is no question waiting for an answer.");
+		}
+		this.pending = null;
+		this.question = null;
+		resolve(Math.sign(result));
+	}
+
+	choose (side: Side) {
+		this.answer(SIDE_RESULTS[side]);
+	}
+
+	/**
+	 * Forgets the waiting question without answering it. Whatever was waiting for the answer waits forever.
+	 */
+	drop () {
+		this.pending = null;
+		this.question = null;
+	}
+}
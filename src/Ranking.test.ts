@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { insertIntoRanking, placesOf, ranked, weightedRanking } from './Ranking'
+
+const byValue = async (a: number, b: number) => a - b;
+
+describe("ranked", () => {
+	it("gives tied items the same rank and skips the places they take", () => {
+		expect(ranked([["a"], ["b", "c"], ["d"]])).toEqual([
+			{ rank: 1, tier: 1, item: "a" },
+			{ rank: 2, tier: 2, item: "b" },
+			{ rank: 2, tier: 2, item: "c" },
+			{ rank: 4, tier: 3, item: "d" },
+		]);
+	});
+});
+
+describe("insertIntoRanking", () => {
+	it("puts new items in their own tiers where they belong", async () => {
+		expect(await insertIntoRanking([[10], [20], [30]], [25, 5, 35], byValue)).toEqual([[5], [10], [20], [25], [30], [35]]);
+	});
+
+	it("adds an item the comparator calls equal to that tier", async () => {
+		expect(await insertIntoRanking([[10], [20, 21]], [20], async (a, b) => Math.floor(a / 10) - Math.floor(b / 10)))
+			.toEqual([[10], [20, 21, 20]]);
+	});
+
+	it("binary searches over the tiers", async () => {
+		let ranking = Array.from({ length: 64 }, (_, i) => [i * 2]);
+		let asked = 0;
+		await insertIntoRanking(ranking, [63], async (a, b) => {
+			asked++;
+			return a - b;
+		});
+		expect(asked).toBeLessThanOrEqual(7);
+	});
+
+	it("leaves the ranking passed in alone", async () => {
+		let ranking = [[1], [3]];
+		await insertIntoRanking(ranking, [2], byValue);
+		expect(ranking).toEqual([[1], [3]]);
+	});
+});
+
+describe("placesOf", () => {
+	it("gives tied items the average of their places and left-out items the places after", () => {
+		expect(placesOf(5, [[3], [0, 1]])).toEqual([2.5, 2.5, 4.5, 1, 4.5]);
+	});
+});
+
+describe("weightedRanking", () => {
+	let taste = [[0], [1], [2]];
+	let price = [[2], [1], [0]];
+
+	it("orders by the weighted average place", () => {
+		expect(weightedRanking(3, [taste, price], [3, 1])).toEqual([[0], [1], [2]]);
+		expect(weightedRanking(3, [taste, price], [1, 3])).toEqual([[2], [1], [0]]);
+	});
+
+	it("ties items whose averages come out equal", () => {
+		expect(weightedRanking(3, [taste, price], [1, 1])).toEqual([[0, 1, 2]]);
+	});
+
+	it("ignores a criterion of weight 0, and counts all alike if every weight is 0", () => {
+		expect(weightedRanking(3, [taste, price], [1, 0])).toEqual(taste);
+		expect(weightedRanking(3, [taste, price], [0, 0])).toEqual([[0, 1, 2]]);
+	});
+});
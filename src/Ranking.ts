@@ -0,0 +1,127 @@
+/*
+ * Tiered rankings
+ *
+ * A finished ranking is a list of tiers, best first. Items the human called equal ("these two options are equally bad")
+ * share a tier, and everything in a tier shares a rank.
+ */
+import { addCost, lessMade, searchCost } from './Progress'
+import type { ProgressListener } from './Progress'
+import { reporting } from './TimSort'
+
+export { insertIntoRanking, ranked, placesOf, weightedRanking }
+export type { Ranking, RankedItem }
+
+type Ranking<T> = T[][];
+
+interface RankedItem<T> {
+	rank: number;
+	tier: number;
+	item: T;
+}
+
+/**
+ * Lists every item with its rank and 1-based tier number. Ranks skip past shared places the way sports tables do: two
+ * items tied for 2nd are both ranked 2 and the next one is ranked 4.
+ */
+function ranked<T> (ranking: Ranking<T>): RankedItem<T>[] {
+	let rows: RankedItem<T>[] = [];
+	ranking.forEach((items, tier) => {
+		let rank = rows.length + 1;
+		for (let item of items) {
+			rows.push({ rank, tier: tier + 1, item });
+		}
+	});
+	return rows;
+}
+
+/**
+ * Places new items into a finished ranking without sorting it again. Each item is binary searched against one
+ * representative per tier, so it costs about log2(number of tiers) comparisons. An item the comparator calls equal to a
+ * tier joins that tier; otherwise it gets a new tier of its own.
+ *
+ * @param ranking the finished ranking; not modified
+ * @param items the items to add, inserted one after the other
+ * @param compareFn comparator, negative if a goes first
+ * @param progress hears the remaining estimate before each comparison
+ * @return a new ranking containing the old and the new items
+ */
+async function insertIntoRanking<T> (ranking: Ranking<T>, items: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener): Promise<Ranking<T>> {
+	let tiers = ranking.map(tier => tier.slice());
+	let index = 0;
+	let itemStart = 0;
+	// Later items search at least the tiers there are now, at most one more tier per item before them
+	let compare = reporting(compareFn, progress, made => {
+		let cost = lessMade(searchCost(tiers.length), made - itemStart);
+		for (let later = 1; index + later < items.length; later++) {
+			cost = addCost(cost, { best: searchCost(tiers.length).best, worst: searchCost(tiers.length + later).worst });
+		}
+		return cost;
+	});
+	for (; index < items.length; index++) {
+		let item = items[index];
+		itemStart = compare.made;
+		let left = 0;
+		let right = tiers.length;
+		let joined = false;
+		while (left < right) {
+			let mid = (left + right) >>> 1;
+			let comparison = await compare(item, tiers[mid][0]);
+			if (comparison == 0) {
+				tiers[mid].push(item);
+				joined = true;
+				break;
+			}
+			if (comparison < 0)
+				right = mid;
+			else
+				left = mid + 1;
+		}
+		if (!joined) tiers.splice(left, 0, [item]);
+	}
+	return tiers;
+}
+
+/**
+ * Every item's place in a ranking, counting from 1. Tied items share the average of the places they take, so two items
+ * tied for 2nd are both 2.5. Items the ranking leaves out, as a top-K ranking does, share the places after it.
+ *
+ * @param itemCount how many items there are; the ranking holds indices from 0 to itemCount - 1
+ */
+function placesOf (itemCount: number, ranking: Ranking<number>): number[] {
+	let places = new Array<number>(itemCount).fill(NaN);
+	let next = 1;
+	for (let tier of ranking) {
+		let place = next + (tier.length - 1) / 2;
+		for (let item of tier) places[item] = place;
+		next += tier.length;
+	}
+	let left = places.filter(place => isNaN(place)).length;
+	return places.map(place => isNaN(place) ? next + (left - 1) / 2 : place);
+}
+
+/**
+ * Combines rankings of the same items on different criteria by the weighted average of each item's places. Items
+ * whose averages come out equal share a tier. A criterion with weight 0 is ignored; if every weight is 0, all of them
+ * count the same.
+ *
+ * @param itemCount how many items there are
+ * @param rankings one ranking per criterion, as indices from 0 to itemCount - 1
+ * @param weights how much each ranking counts; not negative
+ */
+function weightedRanking (itemCount: number, rankings: Ranking<number>[], weights: number[]): Ranking<number> {
+	let total = weights.reduce((sum, weight) => sum + weight, 0);
+	let used = total > 0 ? weights : weights.map(() => 1);
+	let usedTotal = total > 0 ? total : weights.length;
+	let places = rankings.map(ranking => placesOf(itemCount, ranking));
+	let average = Array.from({ length: itemCount }, (_, item) =>
+		places.reduce((sum, place, criterion) => sum + used[criterion] * place[item], 0) / usedTotal);
+	let order = average.map((_, i) => i).sort((a, b) => average[a] - average[b] || a - b);
+	let tiers: Ranking<number> = [];
+	for (let item of order) {
+		let last = tiers[tiers.length - 1];
+		// Sums of the same places in a different order can differ in the last bits
+		if (last !== undefined && Math.abs(average[last[0]] - average[item]) < 1e-9) last.push(item);
+		else tiers.push([item]);
+	}
+	return tiers;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { rankingChanges, refreshSort } from './Refresh'
+
+// Compares numbers, counting the comparisons
+function counting () {
+	let counter = {
+		asked: 0,
+		compare: async (a: number, b: number) => {
+			counter.asked++;
+			return a - b;
+		},
+	};
+	return counter;
+}
+
+describe("refreshSort", () => {
+	it("only checks the neighbours of an order that still holds", async () => {
+		let counter = counting();
+		expect(await refreshSort([1, 2, 3, 4, 5, 6], counter.compare)).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(counter.asked).toBe(5);
+	});
+
+	it("moves an item that changed place", async () => {
+		let counter = counting();
+		expect(await refreshSort([1, 2, 7, 3, 4, 5, 6, 8], counter.compare)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+		expect(counter.asked).toBeLessThan(7 + 8);
+	});
+
+	it("sorts an order that was turned around", async () => {
+		let counter = counting();
+		expect(await refreshSort([5, 4, 3, 2, 1], counter.compare)).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it("keeps equal items in their old order", async () => {
+		let items = [{ key: 2, name: "b" }, { key: 1, name: "x" }, { key: 2, name: "a" }];
+		let sorted = await refreshSort(items, async (a, b) => a.key - b.key);
+		expect(sorted.map(item => item.name)).toEqual(["x", "b", "a"]);
+	});
+
+	it("reports the remaining comparisons, ending at none", async () => {
+		let estimates: { best: number, worst: number }[] = [];
+		await refreshSort([3, 1, 2, 4], counting().compare, estimate => estimates.push(estimate));
+		expect(estimates[0]).toEqual({ best: 3, worst: expect.any(Number) });
+		estimates.forEach(estimate => expect(estimate.best).toBeLessThanOrEqual(estimate.worst));
+	});
+});
+
+describe("rankingChanges", () => {
+	it("says how far every item moved, and which ones are new", () => {
+		expect(rankingChanges([["a"], ["b"], ["c"]], [["c"], ["a"], ["d"], ["b"]])).toEqual([
+			{ item: "c", before: 3, after: 1, moved: 2 },
+			{ item: "a", before: 1, after: 2, moved: -1 },
+			{ item: "d", before: null, after: 3, moved: 0 },
+			{ item: "b", before: 2, after: 4, moved: -2 },
+		]);
+	});
+
+	it("ranks tied items alike", () => {
+		expect(rankingChanges([["a", "b"]], [["b"], ["a"]]).map(change => change.moved)).toEqual([0, -1]);
+	});
+});
@@ -0,0 +1,164 @@
+/*
+ * Refreshing a stale ranking
+ *
+ * Preferences drift, so last month's ranking needs checking rather than redoing. A refresh starts from the old order and
+ * first asks about every pair of neighbours in it. If each answer agrees with the old order, that is all it asks: n - 1
+ * questions. Every disagreement splits the old order into runs that are still in order, and only those runs get merged,
+ * smallest first, with each item of the shorter run galloping through the longer one from where the one before it went.
+ * An item that moved far costs a few more questions; the parts of the list that did not change cost none.
+ */
+import { addCost, lessMade, searchCost, NO_COST } from './Progress'
+import type { Estimate, ProgressListener } from './Progress'
+import { ranked } from './Ranking'
+import type { Ranking } from './Ranking'
+import { reporting } from './TimSort'
+
+export { refreshSort, rankingChanges }
+export type { RankingChange }
+
+/**
+ * Where an item went between two rankings. Ranks count the way ranked() does.
+ */
+interface RankingChange<T> {
+	item: T;
+	/**
+	 * The old rank, or null if the item is new.
+	 */
+	before: number | null;
+	after: number;
+	/**
+	 * How many places the item went up; negative if it went down.
+	 */
+	moved: number;
+}
+
+/**
+ * Sorts items that are probably still in order, asking about neighbours first.
+ *
+ * @param arr the items in their old order; not modified
+ * @param compareFn comparator, negative if a goes first
+ * @return the items in sorted order; items the comparator calls equal keep their old order
+ */
+async function refreshSort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener) : Promise<T[]> {
+	let runs: T[][] = [];
+	let checking = true;
+	// The merge in progress: its cost, the comparisons made before it, and the index of its left run
+	let merging: { cost: Estimate, at: number, run: number } | null = null;
+	let compare = reporting(compareFn, progress, made => {
+		if (checking) {
+			// At worst every neighbour disagrees and every item is a run of its own
+			let unchecked = arr.length - 1 - made;
+			let lengths = runs.map(run => run.length).concat(new Array<number>(unchecked + 1).fill(1));
+			return { best: unchecked, worst: unchecked + mergesCost(lengths).worst };
+		}
+		let lengths = runs.map(run => run.length);
+		if (merging === null) return mergesCost(lengths);
+		lengths.splice(merging.run, 2, lengths[merging.run] + lengths[merging.run + 1]);
+		return addCost(lessMade(merging.cost, made - merging.at), mergesCost(lengths));
+	});
+
+	if (arr.length == 0) return [];
+	runs.push([arr[0]]);
+	for (let i = 1; i < arr.length; i++) {
+		if (await compare(arr[i - 1], arr[i]) <= 0) runs[runs.length - 1].push(arr[i]);
+		else runs.push([arr[i]]);
+	}
+	checking = false;
+
+	while (runs.length > 1) {
+		let run = smallestPair(runs.map(run => run.length));
+		let [left, right] = runs.slice(run, run + 2);
+		merging = { cost: gallopMergeCost(left.length, right.length), at: compare.made, run };
+		runs.splice(run, 2, await gallopMerge(left, right, compare));
+		merging = null;
+	}
+	return runs[0];
+}
+
+/**
+ * The adjacent pair of runs with the fewest items between them, leftmost if there are several.
+ */
+function smallestPair (lengths: number[]): number {
+	let best = 0;
+	for (let i = 1; i + 1 < lengths.length; i++) {
+		if (lengths[i] + lengths[i + 1] < lengths[best] + lengths[best + 1]) best = i;
+	}
+	return best;
+}
+
+/**
+ * Merges two sorted runs, the left one first among equals, by galloping each item of the shorter run through the
+ * longer one.
+ */
+async function gallopMerge<T>(left: T[], right: T[], compare: ((a: T, b: T) => Promise<number>)) : Promise<T[]> {
+	let leftShort = left.length <= right.length;
+	let [short, long] = leftShort ? [left, right] : [right, left];
+	// Whether x from the short run goes before the long run's item at j
+	let goesBefore = async (x: T, j: number) => leftShort ? await compare(x, long[j]) <= 0 : await compare(x, long[j]) < 0;
+
+	let merged: T[] = [];
+	let from = 0;
+	for (let x of short) {
+		let lo = from;
+		let hi = long.length;
+		// Probe 1, 2, 4, ... items ahead until x goes before one, then binary search the gap
+		for (let offset = 0; from + offset < long.length; offset = offset * 2 + 1) {
+			if (await goesBefore(x, from + offset)) {
+				hi = from + offset;
+				break;
+			}
+			lo = from + offset + 1;
+		}
+		while (lo < hi) {
+			let mid = (lo + hi) >>> 1;
+			if (await goesBefore(x, mid))
+				hi = mid;
+			else
+				lo = mid + 1;
+		}
+		merged.push(...long.slice(from, lo), x);
+		from = lo;
+	}
+	merged.push(...long.slice(from));
+	return merged;
+}
+
+/**
+ * A gallop merge: at best every item of the shorter run goes in with one comparison. At worst each one gallops past
+ * and then binary searches its gap, about twice log2 of the gap; the gaps add up to the longer run, so the worst is
+ * when they are all the same.
+ */
+function gallopMergeCost (len1: number, len2: number): Estimate {
+	let short = Math.min(len1, len2);
+	let long = Math.max(len1, len2);
+	if (short == 0) return NO_COST;
+	return { best: short, worst: short * (2 * searchCost(Math.ceil(long / short)).worst + 1) };
+}
+
+/**
+ * The merges still to come for runs of these lengths, merged smallest pair first.
+ */
+function mergesCost (lengths: number[]): Estimate {
+	let runs = lengths.slice();
+	let cost = NO_COST;
+	while (runs.length > 1) {
+		let at = smallestPair(runs);
+		cost = addCost(cost, gallopMergeCost(runs[at], runs[at + 1]));
+		runs.splice(at, 2, runs[at] + runs[at + 1]);
+	}
+	return cost;
+}
+
+/**
+ * Where every item of the new ranking went since the old one, in the new order.
+ *
+ * @param before the old ranking; items not in it count as new
+ * @param after the new ranking of the same or more items
+ */
+function rankingChanges<T> (before: Ranking<T>, after: Ranking<T>): RankingChange<T>[] {
+	let oldRanks = new Map(ranked(before).map(row => [row.item, row.rank]));
+	return ranked(after).map(row => {
+		let old = oldRanks.get(row.item);
+		return { item: row.item, before: old ?? null, after: row.rank, moved: old === undefined ? 0 : old - row.rank };
+	});
+}
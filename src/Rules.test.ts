@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import type { Item } from './Item'
+import { RuleSet, compileRule, describeRule } from './Rules'
+import type { RuleDefinition } from './Rules'
+
+function item (label: string, metadata?: Record<string, string>): Item {
+	return { label, metadata };
+}
+
+describe("RuleSet", () => {
+	let rules = new RuleSet<Item>([
+		{ kind: "pin", above: "Tea", below: "Coffee" },
+		{ kind: "numeric", field: "price", first: "lower" },
+		{ kind: "tags", field: "tags", priority: ["must", "nice"] },
+	]);
+
+	it("takes the answer of the first rule that decides, and counts it", () => {
+		rules.resetHits();
+		expect(rules.decide(item("coffee", { price: "1" }), item(" tea ", { price: "5" }))).toEqual({ result: 1, rule: 0 });
+		expect(rules.decide(item("a", { price: "2" }), item("b", { price: "10" }))).toEqual({ result: -1, rule: 1 });
+		expect(rules.decide(item("a", { tags: "nice" }), item("b", { tags: "x, must" }))).toEqual({ result: 1, rule: 2 });
+		expect(rules.hits).toEqual([1, 1, 1]);
+	});
+
+	it("leaves a pair no rule can tell apart to the human", () => {
+		expect(rules.decide(item("a", { price: "" }), item("b", { price: "n/a" }))).toBeUndefined();
+	});
+});
+
+describe("compileRule", () => {
+	it("puts items without a tag after every tagged one", () => {
+		let rule = compileRule<Item>({ kind: "tags", field: "tags", priority: ["must"] });
+		expect(rule.decide(item("a"), item("b", { tags: "must" }))).toBe(1);
+		expect(rule.decide(item("a"), item("b"))).toBeUndefined();
+	});
+
+	it("refuses a rule of an unknown kind", () => {
+		expect(() => compileRule({ kind: "random" } as unknown as RuleDefinition)).toThrow(/Unknown rule kind random/);
+	});
+});
+
+describe("describeRule", () => {
+	it("says what each kind of rule does", () => {
+		expect(describeRule({ kind: "numeric", field: "price", first: "higher" })).toBe("Higher price first");
+		expect(describeRule({ kind: "pin", above: "Tea", below: "Coffee" })).toBe("Tea above Coffee");
+		expect(describeRule({ kind: "tags", field: "tags", priority: ["must", "nice"] })).toBe("tags: must > nice");
+	});
+});
@@ -0,0 +1,143 @@
+/*
+ * Automatic answers
+ *
+ * Some pairs do not need a human: the cheaper of two items with a price column, an item pinned above another, a "must
+ * have" tag against a "nice to have" one. Rules answer those pairs before the question is put up. A rule only answers
+ * when it can tell the two items apart; anything it cannot decide goes to the next rule and finally to the human.
+ *
+ * Rules are stored as plain definitions so they can be saved with a session and replayed the same way.
+ */
+import { duplicateKey } from './Import'
+import type { Item } from './Item'
+
+export { RuleSet, compileRule, describeRule, metadataFields }
+export type { Rule, RuleDefinition }
+
+type RuleDefinition =
+	/**
+	 * Compares a metadata field as numbers. Items where the field is missing or not a number are left to later rules.
+	 */
+	| { kind: "numeric", field: string, first: "higher" | "lower" }
+	/**
+	 * The item labelled above always goes before the one labelled below. Labels match the way duplicates do on import.
+	 */
+	| { kind: "pin", above: string, below: string }
+	/**
+	 * A metadata field holding comma separated tags. An item goes first if its best tag comes earlier in priority.
+	 */
+	| { kind: "tags", field: string, priority: string[] };
+
+/**
+ * A compiled rule: a comparator that may decline to answer.
+ */
+interface Rule<T> {
+	definition: RuleDefinition;
+	decide (a: T, b: T): number | undefined;
+}
+
+/**
+ * Rules tried in order, with how many comparisons each one answered.
+ */
+class RuleSet<T extends Item> {
+	readonly definitions: RuleDefinition[];
+	readonly rules: Rule<T>[];
+	hits: number[];
+
+	constructor (definitions: RuleDefinition[]) {
+		this.definitions = definitions.slice();
+		this.rules = definitions.map(definition => compileRule<T>(definition));
+		this.hits = this.rules.map(() => 0);
+	}
+
+	/**
+	 * The answer of the first rule that decides the pair, with that rule's index, or undefined if none does.
+	 */
+	decide (a: T, b: T): { result: number, rule: number } | undefined {
+		for (let i = 0; i < this.rules.length; i++) {
+			let result = this.rules[i].decide(a, b);
+			if (result !== undefined) {
+				this.hits[i]++;
+				return { result, rule: i };
+			}
+		}
+		return undefined;
+	}
+
+	resetHits () {
+		this.hits = this.rules.map(() => 0);
+	}
+}
+
+function compileRule<T extends Item> (definition: RuleDefinition): Rule<T> {
+	switch (definition.kind) {
+	case "numeric": {
+		let sign = definition.first == "higher" ? -1 : 1;
+		let value = (item: T) => {
+			let text = item.metadata?.[definition.field]?.trim();
+			return text ? Number(text) : NaN;
+		};
+		return {
+			definition,
+			decide: (a, b) => {
+				let difference = value(a) - value(b);
+				return isNaN(difference) || difference == 0 ? undefined : sign * Math.sign(difference);
+			},
+		};
+	}
+	case "pin": {
+		let above = duplicateKey(definition.above);
+		let below = duplicateKey(definition.below);
+		return {
+			definition,
+			decide: (a, b) => {
+				let [first, second] = [duplicateKey(a.label), duplicateKey(b.label)];
+				if (first == above && second == below) return -1;
+				if (first == below && second == above) return 1;
+				return undefined;
+			},
+		};
+	}
+	case "tags": {
+		let priority = definition.priority.map(tag => tag.trim().toLowerCase());
+		// The earliest place any of the item's tags has in the priority list; untagged items come after all tags
+		let rank = (item: T) => {
+			let tags = (item.metadata?.[definition.field] ?? "").split(/[,;]/).map(tag => tag.trim().toLowerCase());
+			let places = tags.map(tag => priority.indexOf(tag)).filter(place => place >= 0);
+			return places.length > 0 ? Math.min(...places) : priority.length;
+		};
+		return {
+			definition,
+			decide: (a, b) => {
+				let difference = rank(a) - rank(b);
+				return difference == 0 ? undefined : Math.sign(difference);
+			},
+		};
+	}
+	default:
+		throw new Error("Unknown rule kind " + (definition as { kind: unknown }).kind + ".");
+	}
+}
+
+function describeRule (definition: RuleDefinition): string {
+	switch (definition.kind) {
+	case "numeric":
+		return `${definition.first == "higher" ? "Higher" : "Lower"} ${definition.field} first`;
+	case "pin":
+		return `${definition.above} above ${definition.below}`;
+	case "tags":
+		return `${definition.field}: ${definition.priority.join(" > ")}`;
+	}
+}
+
+/**
+ * Every metadata field used by any of the items, for choosing what a rule looks at.
+ */
+function metadataFields (items: Item[]): string[] {
+	let fields: string[] = [];
+	for (let item of items) {
+		for (let field of Object.keys(item.metadata ?? {})) {
+			if (!fields.includes(field)) fields.push(field);
+		}
+	}
+	return fields;
+}
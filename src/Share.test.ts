@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Item } from './Item'
+import { canShare, readShareLink, shareLink } from './Share'
+import { SortSession } from './SortSession'
+import type { SessionSnapshot } from './SortSession'
+
+const BASE = "https://example.org/rank/";
+// The same object as import.meta.env in Share.ts, which the build would set
+const env: { VITE_SHARE_URL?: string } = import.meta.env;
+
+function snapshot (): SessionSnapshot<Item> {
+	let items: Item[] = [{ label: "Tea", note: "*green*", image: "data:image/png;base64,AAAA" }, { label: "Coffee" }];
+	return new SortSession(items, { answers: [{ left: 0, right: 1, result: -1 }] }).snapshot();
+}
+
+describe("share links", () => {
+	beforeEach(() => {
+		env.VITE_SHARE_URL = BASE + "#old";
+	});
+
+	afterEach(() => {
+		delete env.VITE_SHARE_URL;
+	});
+
+	it("point at the configured address", async () => {
+		expect(canShare()).toBe(true);
+		expect(await shareLink(snapshot(), "progress")).toMatch(/^https:\/\/example\.org\/rank\/#share=z/);
+	});
+
+	it("carry the session there and back without its images", async () => {
+		let link = await shareLink(snapshot(), "progress") as string;
+		let shared = await readShareLink(link.slice(link.indexOf("#")));
+		expect(shared?.kind).toBe("progress");
+		expect(shared?.session.items).toEqual([{ label: "Tea", note: "*green*" }, { label: "Coffee" }]);
+		expect(shared?.session.answers).toHaveLength(1);
+	});
+
+	it("leave the answers out of a list", async () => {
+		let link = await shareLink(snapshot(), "list") as string;
+		expect((await readShareLink(link.slice(link.indexOf("#"))))?.session.answers).toEqual([]);
+	});
+
+	it("cannot be made without an address to point at", async () => {
+		delete env.VITE_SHARE_URL;
+		expect(canShare()).toBe(false);
+		expect(await shareLink(snapshot(), "list")).toBeNull();
+	});
+});
+
+describe("readShareLink", () => {
+	it("ignores a fragment that is not a shared ranking", async () => {
+		expect(await readShareLink("#results")).toBeNull();
+	});
+
+	it("reads an uncompressed link", async () => {
+		let payload = Buffer.from(JSON.stringify({ kind: "list", session: snapshot() })).toString("base64url");
+		expect((await readShareLink("#share=j" + payload))?.kind).toBe("list");
+	});
+
+	it("refuses a link in an unknown format or without a ranking", async () => {
+		await expect(readShareLink("#share=qabc")).rejects.toThrow(/format/);
+		let payload = Buffer.from(JSON.stringify({ kind: "list" })).toString("base64url");
+		await expect(readShareLink("#share=j" + payload)).rejects.toThrow(/does not hold a ranking/);
+	});
+});
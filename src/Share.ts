@@ -0,0 +1,119 @@
+/*
+ * Shareable links
+ *
+ * The web build is a static site with no server behind it, so a shared ranking travels entirely inside its link: the
+ * session snapshot as JSON, deflated and base64url-encoded into the URL fragment. Browsers never send the fragment
+ * anywhere, so only whoever has the link sees what is in it.
+ *
+ * A link holds a list ready to rank, a ranking in progress to carry on with, or a finished ranking to show read-only.
+ * Item images are left out: as data: URLs they would make the link too long to paste anywhere.
+ */
+import type { Item } from './Item'
+import { isTauri } from './Platform'
+import type { SessionSnapshot } from './SortSession'
+
+export { shareLink, readShareLink, canShare }
+export type { Shared, ShareKind }
+
+type ShareKind = "list" | "progress" | "result";
+
+interface Shared {
+	kind: ShareKind;
+	session: SessionSnapshot<Item>;
+}
+
+const FRAGMENT_PREFIX = "#share=";
+// The first character of the payload says how the rest is encoded
+const DEFLATED = "z";
+const PLAIN = "j";
+
+/**
+ * Where links point: VITE_SHARE_URL if the build sets it, otherwise the page itself. The desktop app's own address is
+ * no use to anyone else, so without VITE_SHARE_URL it cannot share.
+ */
+function shareBase (): string | null {
+	let configured: string | undefined = import.meta.env.VITE_SHARE_URL;
+	if (configured) return configured.split("#")[0];
+	if (isTauri() || typeof location === "undefined") return null;
+	return location.href.split("#")[0];
+}
+
+function canShare (): boolean {
+	return shareBase() !== null;
+}
+
+function toBase64Url (bytes: Uint8Array): string {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url (text: string): Uint8Array {
+	let binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+	return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function transform (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+	let output = new Blob([bytes]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * @param kind what the link opens as; a result link should be made from a finished session
+ * @return the link, or null if this build has nowhere to point it
+ */
+async function shareLink (session: SessionSnapshot<Item>, kind: ShareKind): Promise<string | null> {
+	let base = shareBase();
+	if (base === null) return null;
+	let shared: Shared = {
+		kind,
+		session: {
+			...session,
+			items: session.items.map(({ image, ...item }) => item),
+			answers: kind == "list" ? [] : session.answers,
+		},
+	};
+	let bytes = new TextEncoder().encode(JSON.stringify(shared));
+	return base + FRAGMENT_PREFIX + await encode(bytes);
+}
+
+/**
+ * Deflated if the browser can. CompressionStream is missing from older browsers, and some lack the deflate-raw format;
+ * the link is only longer without it.
+ */
+async function encode (bytes: Uint8Array): Promise<string> {
+	if (typeof CompressionStream !== "undefined") {
+		try {
+			return DEFLATED + toBase64Url(await transform(bytes, new CompressionStream("deflate-raw")));
+		} catch {
+			// not supported after all
+		}
+	}
+	return PLAIN + toBase64Url(bytes);
+}
+
+/**
+ * Reads what a link shares from its fragment.
+ *
+ * @param hash location.hash
+ * @return null if the fragment is not a shared ranking
+ * @throws Error if it is one, but cannot be read
+ */
+async function readShareLink (hash: string): Promise<Shared | null> {
+	if (!hash.startsWith(FRAGMENT_PREFIX)) return null;
+	let payload = hash.slice(FRAGMENT_PREFIX.length);
+	let bytes = fromBase64Url(payload.slice(1));
+	if (payload[0] === DEFLATED) {
+		if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot open compressed links.");
+		bytes = await transform(bytes, new DecompressionStream("deflate-raw"));
+	} else if (payload[0] !== PLAIN) {
+		throw new Error("The link is not in a format this version understands.");
+	}
+	let shared = JSON.parse(new TextDecoder().decode(bytes));
+	if (!["list", "progress", "result"].includes(shared?.kind) || !Array.isArray(shared?.session?.items)) {
+		throw new Error("The link does not hold a ranking.");
+	}
+	return shared as Shared;
+}
@@ -0,0 +1,64 @@
+/*
+ * Keyboard shortcuts for the compare screen
+ *
+ * A long ranking is a few hundred clicks. These keys let it be done without the mouse: the arrow keys or 1/2/3 pick a
+ * side, Ctrl+Z and Ctrl+Y (or Ctrl+Shift+Z) undo and redo, Escape pauses.
+ */
+import { onBeforeUnmount, onMounted } from 'vue'
+import type { Side } from './PromptComparator'
+
+export { shortcutFor, useShortcuts, SHORTCUT_HINTS }
+export type { Shortcut }
+
+type Shortcut = Side | "undo" | "redo" | "pause";
+
+const SIDE_KEYS: Record<string, Side> = {
+	ArrowLeft: "left",
+	"1": "left",
+	ArrowDown: "neither",
+	"2": "neither",
+	ArrowRight: "right",
+	"3": "right",
+};
+
+const SHORTCUT_HINTS: Record<Shortcut, string> = {
+	left: "← or 1",
+	neither: "↓ or 2",
+	right: "→ or 3",
+	undo: "Ctrl+Z",
+	redo: "Ctrl+Y",
+	pause: "Esc",
+};
+
+/**
+ * Which shortcut a key press means, if any. Typing into a text field and held-down keys never count.
+ */
+function shortcutFor (event: KeyboardEvent): Shortcut | null {
+	let target = event.target as HTMLElement | null;
+	if (target !== null && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return null;
+	if (event.repeat) return null;
+
+	let key = event.key.length == 1 ? event.key.toLowerCase() : event.key;
+	if (event.ctrlKey || event.metaKey) {
+		if (key == "z") return event.shiftKey ? "redo" : "undo";
+		if (key == "y") return "redo";
+		return null;
+	}
+	if (event.altKey) return null;
+	if (key == "Escape") return "pause";
+	return SIDE_KEYS[key] ?? null;
+}
+
+/**
+ * Listens for shortcuts while the calling component is mounted.
+ */
+function useShortcuts (handler: (shortcut: Shortcut) => void) {
+	function pressed (event: KeyboardEvent) {
+		let shortcut = shortcutFor(event);
+		if (shortcut === null) return;
+		event.preventDefault();
+		handler(shortcut);
+	}
+	onMounted(() => window.addEventListener("keydown", pressed));
+	onBeforeUnmount(() => window.removeEventListener("keydown", pressed));
+}
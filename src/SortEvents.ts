@@ -0,0 +1,103 @@
+/*
+ * Sort events
+ *
+ * A strategy given an observer tells it what it is doing as it goes: the runs timsort finds and stacks up, the merges
+ * between them, when a merge starts galloping, and every comparison asked and answered. That is enough to draw the
+ * partial order the sort has built so far, and so to show why the human is being asked a given pair.
+ *
+ * Items in events are copies taken when the event happened; the sort goes on rearranging its own array.
+ */
+export { SortTrace }
+export type { SortEvent, SortObserver }
+
+type SortEvent<T> =
+	/**
+	 * timsort found a run already in order, reversing it first if it was descending.
+	 */
+	| { type: "runFound", items: T[], descending: boolean }
+	/**
+	 * A binary insertion is about to place item among the sorted items.
+	 */
+	| { type: "insertionStarted", sorted: T[], item: T }
+	/**
+	 * A sorted run went onto timsort's stack of runs waiting to be merged.
+	 */
+	| { type: "runPushed", items: T[] }
+	/**
+	 * The runs at stack index at and at + 1 are being merged.
+	 */
+	| { type: "mergeStarted", at: number, first: T[], second: T[] }
+	/**
+	 * One run kept winning, so the merge searches for how far it wins instead of comparing the front items one by one.
+	 */
+	| { type: "gallopEntered" }
+	| { type: "gallopEnded" }
+	/**
+	 * The merged run took the place of the two at stack index at and at + 1.
+	 */
+	| { type: "mergeFinished", at: number, items: T[] }
+	| { type: "comparisonAsked", a: T, b: T }
+	| { type: "comparisonAnswered", a: T, b: T, result: number };
+
+type SortObserver<T> = (event: SortEvent<T>) => void;
+
+/**
+ * The state of a sort as its events tell it. Every run on the stack and the run being built are chains the answers
+ * have put in order; the question is where the next answer goes.
+ */
+class SortTrace<T> {
+	/**
+	 * The runs waiting to be merged, oldest first, each in sorted order.
+	 */
+	runs: T[][] = [];
+	/**
+	 * The run being found or built by binary insertion, and the item being inserted into it.
+	 */
+	building: T[] | null = null;
+	inserting: T | null = null;
+	/**
+	 * The merge in progress, of the runs at index at and at + 1.
+	 */
+	merging: { at: number, first: T[], second: T[], galloping: boolean } | null = null;
+	question: [T, T] | null = null;
+	comparisons = 0;
+
+	/**
+	 * Takes in one event; pass it to a strategy as (event) => trace.record(event).
+	 */
+	record (event: SortEvent<T>) {
+		switch (event.type) {
+		case "runFound":
+			this.building = event.items;
+			this.inserting = null;
+			break;
+		case "insertionStarted":
+			this.building = event.sorted;
+			this.inserting = event.item;
+			break;
+		case "runPushed":
+			this.runs.push(event.items);
+			this.building = null;
+			this.inserting = null;
+			break;
+		case "mergeStarted":
+			this.merging = { at: event.at, first: event.first, second: event.second, galloping: false };
+			break;
+		case "gallopEntered":
+		case "gallopEnded":
+			if (this.merging !== null) this.merging.galloping = event.type == "gallopEntered";
+			break;
+		case "mergeFinished":
+			this.runs.splice(event.at, 2, event.items);
+			this.merging = null;
+			break;
+		case "comparisonAsked":
+			this.question = [event.a, event.b];
+			break;
+		case "comparisonAnswered":
+			this.question = null;
+			this.comparisons++;
+			break;
+		}
+	}
+}
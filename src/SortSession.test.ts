@@ -0,0 +1,248 @@
+import { describe, expect, it } from 'vitest'
+import type { Item } from './Item'
+import { SortSession } from './SortSession'
+import type { SessionOptions } from './SortSession'
+
+function items (...labels: string[]): Item[] {
+	return labels.map(label => ({ label }));
+}
+
+// Answers every question by the items' places in truth, and counts them
+async function answerAll (session: SortSession<Item>, truth: string[]): Promise<number> {
+	let asked = 0;
+	while (!session.done) {
+		let question = session.question;
+		if (question === null) throw new Error("The session stopped without a question.");
+		asked++;
+		await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+	}
+	return asked;
+}
+
+async function finished (labels: string[], options: SessionOptions = {}): Promise<SortSession<Item>> {
+	let session = new SortSession(items(...labels), options);
+	await session.start();
+	await answerAll(session, labels);
+	return session;
+}
+
+function labels (session: SortSession<Item>): string[][] {
+	return (session.result ?? []).map(tier => tier.map(item => item.label));
+}
+
+// The labels of the question waiting, or null
+function asking (session: SortSession<Item>): string[] | null {
+	let question = session.question;
+	return question === null ? null : [question.left.label, question.right.label];
+}
+
+describe("SortSession", () => {
+	let truth = ["a", "b", "c", "d", "e"];
+
+	it("picks up a restored snapshot at the question it was saved at", async () => {
+		let session = new SortSession(items(...truth.slice().reverse()));
+		await session.start();
+		for (let i = 0; i < 3; i++) {
+			let question = session.question!;
+			await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+		}
+		let restored = SortSession.restore(JSON.parse(JSON.stringify(session)));
+		await restored.start();
+		expect(asking(restored)).toEqual(asking(session));
+		await answerAll(restored, truth);
+		expect(labels(restored)).toEqual(truth.map(label => [label]));
+		expect(restored.answered).toBeGreaterThan(3);
+	});
+
+	it("refuses an answer before the start, and a second start", async () => {
+		let session = new SortSession(items(...truth));
+		expect(() => session.answer(-1)).toThrow(/no question/);
+		await session.start();
+		expect(() => session.start()).toThrow(/already/);
+	});
+});
+
+describe("SortSession.undo and redo", () => {
+	let truth = ["a", "b", "c", "d", "e"];
+
+	async function answered (count: number): Promise<{ session: SortSession<Item>, questions: (string[] | null)[] }> {
+		let session = new SortSession(items(...truth.slice().reverse()));
+		await session.start();
+		let questions = [asking(session)];
+		for (let i = 0; i < count; i++) {
+			let question = session.question!;
+			await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+			questions.push(asking(session));
+		}
+		return { session, questions };
+	}
+
+	it("takes answers back to the question they answered", async () => {
+		let { session, questions } = await answered(4);
+		await session.undo(2);
+		expect(session.answered).toBe(2);
+		expect(asking(session)).toEqual(questions[2]);
+		expect(session.canRedo).toBe(true);
+	});
+
+	it("puts undone answers back one at a time", async () => {
+		let { session, questions } = await answered(4);
+		await session.undo(3);
+		await session.redo();
+		expect(asking(session)).toEqual(questions[2]);
+		await session.redo(2);
+		expect(asking(session)).toEqual(questions[4]);
+		expect(session.canRedo).toBe(false);
+	});
+
+	it("forgets what was undone once a new answer is given", async () => {
+		let { session } = await answered(3);
+		await session.undo();
+		await session.answer(1);
+		expect(session.canRedo).toBe(false);
+		expect(() => session.redo()).toThrow(/no answer to redo/);
+	});
+
+	it("refuses to undo with nothing answered", async () => {
+		let { session } = await answered(0);
+		expect(session.canUndo).toBe(false);
+		expect(() => session.undo()).toThrow(/no answer to undo/);
+	});
+});
+
+describe("SortSession.extend", () => {
+	it("asks only about the new items and keeps the old order", async () => {
+		let session = SortSession.extend(await finished(["a", "c", "e"]), items("b", "d"));
+		await session.start();
+		let asked = await answerAll(session, ["a", "b", "c", "d", "e"]);
+		expect(labels(session)).toEqual([["a"], ["b"], ["c"], ["d"], ["e"]]);
+		expect(asked).toBeLessThanOrEqual(4);
+	});
+
+	it("refuses a top-K session, whose result leaves items out", async () => {
+		let topK = await finished(["a", "b", "c", "d"], { topK: 2 });
+		expect(() => SortSession.extend(topK, items("e"))).toThrow(/top-K/);
+	});
+
+	it("refuses an item that is already in the ranking", async () => {
+		let session = await finished(["Apple", "Pear"]);
+		expect(() => SortSession.extend(session, items(" apple "))).toThrow(/already/);
+		expect(() => SortSession.extend(session, items("Plum", "plum"))).toThrow(/already/);
+	});
+});
+
+describe("SortSession.undo", () => {
+	it("puts the same question up again in a scoring session", async () => {
+		let truth = ["a", "b", "c", "d", "e", "f", "g", "h"];
+		let session = new SortSession(items(...truth), { strategy: "bradleyTerry" });
+		await session.start();
+		for (let i = 0; i < 6; i++) {
+			let question = session.question!;
+			await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+		}
+		let last = session.answers[session.answers.length - 1];
+		await session.undo();
+		expect(session.answers).toHaveLength(5);
+		expect([session.question?.leftIndex, session.question?.rightIndex]).toEqual([last.left, last.right]);
+	});
+});
+
+describe("SortSession.stop", () => {
+	it("finishes the run without changing the saved options, and undo carries on asking", async () => {
+		let truth = ["a", "b", "c", "d", "e", "f"];
+		let session = new SortSession(items(...truth), { strategy: "bradleyTerry" });
+		await session.start();
+		for (let i = 0; i < 3; i++) {
+			let question = session.question!;
+			await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+		}
+		await session.stop();
+		expect(session.done).toBe(true);
+		expect(session.snapshot().scoring).toEqual({});
+		await session.undo();
+		expect(session.done).toBe(false);
+		expect(session.question).not.toBeNull();
+	});
+});
+
+describe("SortSession.restore", () => {
+	let saved = () => new SortSession(items("a", "b", "c"), { criteria: ["taste", "price"] }).snapshot() as unknown as Record<string, unknown>;
+
+	it("restores its own snapshot", () => {
+		expect(SortSession.restore(JSON.parse(JSON.stringify(saved()))).items).toHaveLength(3);
+	});
+
+	it.each([
+		["metadata that is not text", { items: [{ label: "a", metadata: { price: 3 } }] }],
+		["a rule missing its fields", { rules: [{ kind: "pin", above: "a" }] }],
+		["a rule of an unknown kind", { rules: [{ kind: "random" }] }],
+		["an item ranked twice", { base: [[0], [0, 1]] }],
+		["a confidence of 2", { scoring: { confidence: 2 } }],
+		["a comparison budget that is not a count", { scoring: { maxComparisons: "10" } }],
+		["fewer weights than criteria", { weights: [1] }],
+	])("refuses %s", (_, change) => {
+		expect(() => SortSession.restore({ ...saved(), ...change })).toThrow(/saved ranking has/);
+	});
+});
+
+describe("pin rules", () => {
+	it("are settled before the human's answers can settle the pair the other way", async () => {
+		let session = await finished(["a", "b", "c"], { rules: [{ kind: "pin", above: "c", below: "a" }] });
+		expect(labels(session)).toEqual([["c"], ["a"], ["b"]]);
+		expect(session.answered).toBe(1);
+	});
+
+	it("show up as a contradiction when earlier answers go against them", async () => {
+		let answers = [{ left: 0, right: 1, result: -1 }, { left: 1, right: 2, result: -1 }];
+		let session = new SortSession(items("a", "b", "c"), { answers, rules: [{ kind: "pin", above: "c", below: "a" }] });
+		expect(session.contradiction).not.toBeNull();
+	});
+});
+
+describe("SortSession.refresh", () => {
+	it("checks the old order and says what moved", async () => {
+		let session = SortSession.refresh(await finished(["a", "b", "c", "d"]));
+		await session.start();
+		let asked = await answerAll(session, ["b", "a", "c", "d"]);
+		expect(labels(session)).toEqual([["b"], ["a"], ["c"], ["d"]]);
+		expect(asked).toBeLessThanOrEqual(4);
+		expect(session.changes?.map(change => change.moved)).toEqual([1, -1, 0, 0]);
+	});
+
+	it("refuses a top-K session, whose result leaves items out", async () => {
+		let topK = await finished(["a", "b", "c", "d"], { topK: 2 });
+		expect(() => SortSession.refresh(topK)).toThrow(/top-K/);
+	});
+});
+
+describe("ties", () => {
+	it("put items the human calls equal in one tier", async () => {
+		let session = new SortSession(items("a", "b", "c"));
+		await session.start();
+		let rank: Record<string, number> = { a: 0, b: 1, c: 1 };
+		while (!session.done) {
+			let question = session.question!;
+			await session.answer(rank[question.left.label] - rank[question.right.label]);
+		}
+		expect(labels(session)).toEqual([["a"], ["b", "c"]]);
+	});
+});
+
+describe("criteria", () => {
+	it("rank on each in turn and combine them again when the weights change, without asking", async () => {
+		let truths = [["a", "b", "c"], ["c", "b", "a"]];
+		let session = new SortSession(items("a", "b", "c"), { criteria: ["taste", "price"], weights: [3, 1] });
+		await session.start();
+		while (!session.done) {
+			let question = session.question!;
+			let truth = truths[session.criteria.indexOf(question.criterion!)];
+			await session.answer(truth.indexOf(question.left.label) - truth.indexOf(question.right.label));
+		}
+		expect(labels(session)).toEqual([["a"], ["b"], ["c"]]);
+		let answered = session.answered;
+		session.setWeights([1, 3]);
+		expect(labels(session)).toEqual([["c"], ["b"], ["a"]]);
+		expect(session.answered).toBe(answered);
+		expect(() => session.setWeights([1])).toThrow(/one weight/);
+	});
+});
@@ -0,0 +1,811 @@
+/*
+ * Pausable sort sessions
+ *
+ * timsort() runs as one long async call stack, so its progress only exists while that stack is alive. A session keeps the
+ * one thing that cannot be recomputed -- the answers the human gave -- and rebuilds everything else by replaying them. The
+ * sort is deterministic, so feeding it the same answers walks it back to the exact question it stopped at.
+ *
+ * The answers are kept in a ComparisonGraph, which also spares the human any question they have effectively answered already.
+ * Undoing an answer is the same trick run backwards: drop it from the log and replay what is left, and revising one
+ * changes it in the log and replays that. Only the comparisons that depended on it come out differently.
+ *
+ * The bradleyTerry strategy is the exception: it wants repeated and contradicting answers as evidence, so it gets all
+ * the recorded answers at once, without the graph's inferences, and only asks for new ones.
+ *
+ * A session can also refresh an old ranking: it starts from the old order, checks it neighbour by neighbour and only
+ * sorts where the answers changed.
+ *
+ * A session can rank the items on several criteria. Each is sorted on its own, one after the other, with its own
+ * answers and graph; the result combines them with weights that can be changed without asking anything again.
+ */
+import { strategies } from './TimSort'
+import type { StrategyName } from './TimSort'
+import { scoreSort } from './BradleyTerry'
+import type { Score, ScoringOptions } from './BradleyTerry'
+import { ComparisonGraph } from './ComparisonGraph'
+import type { MemoStats } from './ComparisonGraph'
+import { findContradiction } from './Consistency'
+import type { Contradiction } from './Consistency'
+import { PromptComparator } from './PromptComparator'
+import { NO_COST } from './Progress'
+import type { Estimate, ProgressListener } from './Progress'
+import { insertIntoRanking, weightedRanking } from './Ranking'
+import type { Ranking } from './Ranking'
+import { rankingChanges, refreshSort } from './Refresh'
+import type { RankingChange } from './Refresh'
+import { abortable, Sorter, SortAbortedError } from './Sorter'
+import { SortTrace } from './SortEvents'
+import type { SortEvent } from './SortEvents'
+import { RuleSet } from './Rules'
+import type { RuleDefinition } from './Rules'
+import { duplicateKey } from './Import'
+import { isSafeImage, isSafeLink } from './Item'
+import type { Item } from './Item'
+
+export { SortSession, SESSION_VERSION, isObject }
+export type { Answer, Question, SessionOptions, SessionSnapshot }
+
+const SESSION_VERSION = 1;
+
+/**
+ * One comparison the human answered. left and right are indices into the session's items, result is the comparator
+ * value (-1 if left goes first, 1 if right goes first, 0 if neither).
+ */
+interface Answer {
+	left: number;
+	right: number;
+	result: number;
+	/**
+	 * Which of the session's criteria the answer is about, as an index. Missing means the first.
+	 */
+	criterion?: number;
+	/**
+	 * The index of the rule that gave the answer, if one did instead of the human.
+	 */
+	rule?: number;
+}
+
+/**
+ * The comparison currently waiting for the human.
+ */
+interface Question<T> {
+	left: T;
+	right: T;
+	leftIndex: number;
+	rightIndex: number;
+	/**
+	 * The criterion the items are being compared on, or null if the session has none.
+	 */
+	criterion: string | null;
+}
+
+interface SessionOptions {
+	/**
+	 * Answers from an earlier run of the same items, replayed before anything new is asked.
+	 */
+	answers?: Answer[];
+	/**
+	 * Which sort asks the questions. Defaults to timsort.
+	 */
+	strategy?: StrategyName;
+	/**
+	 * Only find and order the best this many items, ignoring strategy. The rest are left out of the result.
+	 */
+	topK?: number;
+	/**
+	 * A finished ranking of some of the items, as item indices. Only the items not in it are asked about, and each is
+	 * binary searched into place instead of sorting everything again.
+	 */
+	base?: Ranking<number>;
+	/**
+	 * An old ranking of the items, as item indices, to check again instead of sorting from scratch. The sort starts from
+	 * its order and asks about neighbours first, ignoring strategy and topK. Items not in it go after it.
+	 */
+	previous?: Ranking<number>;
+	/**
+	 * When the bradleyTerry strategy may stop asking.
+	 */
+	scoring?: ScoringOptions;
+	/**
+	 * Rules that answer some comparisons without asking. Their answers are recorded with the human's, marked with the
+	 * rule that gave them.
+	 */
+	rules?: RuleDefinition[];
+	/**
+	 * Names of the criteria to rank the items on, each in turn. None ranks them once, on nothing in particular.
+	 */
+	criteria?: string[];
+	/**
+	 * How much each criterion counts in the combined result. Defaults to 1 each.
+	 */
+	weights?: number[];
+}
+
+/**
+ * Plain JSON form of a session. Everything needed to continue is in here.
+ */
+interface SessionSnapshot<T> {
+	version: number;
+	items: T[];
+	answers: Answer[];
+	strategy?: StrategyName;
+	topK?: number;
+	base?: Ranking<number>;
+	previous?: Ranking<number>;
+	scoring?: ScoringOptions;
+	rules?: RuleDefinition[];
+	criteria?: string[];
+	weights?: number[];
+}
+
+class SortSession<T extends Item> {
+	readonly items: T[];
+	readonly answers: Answer[];
+	readonly strategy: StrategyName;
+	readonly topK: number | undefined;
+	readonly base: Ranking<number> | undefined;
+	readonly previous: Ranking<number> | undefined;
+	readonly scoring: ScoringOptions;
+	/**
+	 * The rules, with how many comparisons each one answered in the current run.
+	 */
+	readonly rules: RuleSet<T>;
+	readonly criteria: string[];
+	/**
+	 * How much each criterion counts in the result. Change them with setWeights().
+	 */
+	weights: number[];
+	result: Ranking<T> | null = null;
+	/**
+	 * The result as indices into items.
+	 */
+	order: Ranking<number> | null = null;
+	/**
+	 * How many more comparisons the sort expects to make, counting the current question.
+	 */
+	remaining: Estimate = NO_COST;
+	/**
+	 * Every item's score, best first, as indices into items. Only the bradleyTerry strategy scores items.
+	 */
+	scores: Score<number>[] | null = null;
+	/**
+	 * The ranking on each criterion, as indices into items, once they are all done; null if the session has no criteria.
+	 */
+	criterionOrders: Ranking<number>[] | null = null;
+	/**
+	 * The criterion being sorted, as an index into criteria.
+	 */
+	criterion = 0;
+	/**
+	 * The sorter of the current or last run, unless the run was a scoring one or added items to a base ranking.
+	 */
+	sorter: Sorter<number> | null = null;
+	/**
+	 * What the sorter has done so far in the current run, for drawing it; null when there is no sorter.
+	 */
+	trace: SortTrace<number> | null = null;
+	/**
+	 * Set by cancel() until the sort is run again.
+	 */
+	cancelled = false;
+	/**
+	 * The answers on each criterion, or on the only one.
+	 */
+	graphs: ComparisonGraph<number>[] = [];
+	/**
+	 * The smallest set of recorded answers that cannot all be true, or null if they agree with each other.
+	 */
+	contradiction: Contradiction | null = null;
+
+	private undone: Answer[] = [];
+	private generation = 0;
+	private controller = new AbortController();
+	// Answers the current run has received, replayed or new
+	private received = 0;
+	// Where stop() finished a scoring run; not saved, and forgotten once the session runs again for any other reason
+	private stopAt: number | undefined;
+	private started = false;
+	private prompt = new PromptComparator<number>(() => this.wake());
+	private waiting: { resolve: () => void, reject: (error: unknown) => void }[] = [];
+
+	/**
+	 * @param items the things to rank; they must survive JSON.stringify if the session is going to be saved
+	 */
+	constructor (items: T[], options: SessionOptions = {}) {
+		this.items = items.slice();
+		this.answers = (options.answers ?? []).map(answer => ({ ...answer }));
+		this.strategy = options.strategy ?? "timsort";
+		if (!(this.strategy in strategies)) {
+			throw new Error("Unknown sort strategy " + this.strategy + ".");
+		}
+		this.topK = options.topK;
+		this.base = options.base?.map(tier => tier.slice());
+		this.previous = options.previous?.map(tier => tier.slice());
+		this.scoring = { ...options.scoring };
+		this.rules = new RuleSet(options.rules ?? []);
+		this.criteria = (options.criteria ?? []).slice();
+		this.weights = this.criteria.map((_, i) => options.weights?.[i] ?? 1);
+		this.answers = this.pinnedAnswers().concat(this.answers);
+		this.rebuildGraph();
+	}
+
+	/**
+	 * Rebuilds a session from snapshot(), checking first that it is one: it may come from a file or a link. The returned
+	 * session still has to be start()ed.
+	 *
+	 * @throws Error if the snapshot is not a session of items this version can continue
+	 */
+	static restore (value: unknown): SortSession<Item> {
+		let snapshot = checkSnapshot(value);
+		return new SortSession(snapshot.items, {
+			answers: snapshot.answers,
+			strategy: snapshot.strategy,
+			topK: snapshot.topK,
+			base: snapshot.base,
+			previous: snapshot.previous,
+			scoring: snapshot.scoring,
+			rules: snapshot.rules,
+			criteria: snapshot.criteria,
+			weights: snapshot.weights,
+		});
+	}
+
+	/**
+	 * Starts a session that adds new items to a finished one. The old answers are kept, the old result becomes the base.
+	 *
+	 * @throws Error if the session is not finished, has criteria or a top K (whose result leaves items out, so it is no
+	 * base for the rest), or if a new item has the label of another item, matched the way the import matches duplicates
+	 */
+	static extend<T extends Item> (finished: SortSession<T>, items: T[]): SortSession<T> {
+		if (finished.order === null) {
+			throw new Error("Only a finished session can be extended.");
+		}
+		if (finished.criteria.length > 0) {
+			throw new Error("A session with criteria cannot be extended.");
+		}
+		if (finished.topK !== undefined) {
+			throw new Error("A top-K session cannot be extended.");
+		}
+		let labels = new Set(finished.items.map(item => duplicateKey(item.label)));
+		for (let item of items) {
+			if (labels.has(duplicateKey(item.label))) {
+				throw new Error(`"${item.label}" is already in the ranking.`);
+			}
+			labels.add(duplicateKey(item.label));
+		}
+		return new SortSession(finished.items.concat(items), {
+			answers: finished.answers,
+			strategy: finished.strategy,
+			base: finished.order,
+			rules: finished.rules.definitions,
+		});
+	}
+
+	/**
+	 * Starts a session that checks a finished one again, from its result. The old answers are what is being checked, so
+	 * only the order is carried over, with the rules.
+	 *
+	 * @throws Error if the session is not finished, or has criteria or a top K: a refresh sorts every item, and a top-K
+	 * result only says where the best ones go
+	 */
+	static refresh<T extends Item> (finished: SortSession<T>): SortSession<T> {
+		if (finished.order === null) {
+			throw new Error("Only a finished session can be refreshed.");
+		}
+		if (finished.criteria.length > 0) {
+			throw new Error("A session with criteria cannot be refreshed.");
+		}
+		if (finished.topK !== undefined) {
+			throw new Error("A top-K session cannot be refreshed.");
+		}
+		return new SortSession(finished.items, {
+			strategy: finished.strategy,
+			previous: finished.order,
+			rules: finished.rules.definitions,
+		});
+	}
+
+	/**
+	 * The comparison currently waiting for the human, or null while the sort is running or finished.
+	 */
+	get question (): Question<T> | null {
+		let question = this.prompt.question;
+		if (question === null) return null;
+		return {
+			left: this.items[question.left],
+			right: this.items[question.right],
+			leftIndex: question.left,
+			rightIndex: question.right,
+			criterion: this.criteria[this.criterion] ?? null,
+		};
+	}
+
+	get done (): boolean {
+		return this.result !== null;
+	}
+
+	/**
+	 * Where every item went since the previous ranking, in the new order, once a refresh is done; null otherwise.
+	 */
+	get changes (): RankingChange<T>[] | null {
+		if (this.previous === undefined || this.order === null) return null;
+		return rankingChanges(this.previous, this.order).map(change => ({ ...change, item: this.items[change.item] }));
+	}
+
+	/**
+	 * How many questions were put to the human and how many the recorded answers settled instead.
+	 */
+	get stats (): MemoStats {
+		let total: MemoStats = { asked: 0, reused: 0, mirrored: 0, inferred: 0 };
+		for (let graph of this.graphs) {
+			total.asked += graph.stats.asked;
+			total.reused += graph.stats.reused;
+			total.mirrored += graph.stats.mirrored;
+			total.inferred += graph.stats.inferred;
+		}
+		return total;
+	}
+
+	/**
+	 * How many of the answers the human gave, leaving out those of rules.
+	 */
+	get answered (): number {
+		return this.answers.filter(answer => answer.rule === undefined).length;
+	}
+
+	get canUndo (): boolean {
+		return this.answered > 0;
+	}
+
+	get canRedo (): boolean {
+		return this.undone.length > 0;
+	}
+
+	/**
+	 * Whether the session can be finished early with stop(), which only a scoring session on one criterion can.
+	 */
+	get canStop (): boolean {
+		return this.scored && this.criteria.length <= 1 && !this.done;
+	}
+
+	private get scored (): boolean {
+		return this.strategy === "bradleyTerry" && this.topK === undefined && this.base === undefined && this.previous === undefined;
+	}
+
+	/**
+	 * Runs the sort until it needs a new answer or is finished. Questions the recorded answers settle are not asked.
+	 */
+	start (): Promise<void> {
+		if (this.started) {
+			throw new Error("Session has already been started.");
+		}
+		this.started = true;
+		return this.run();
+	}
+
+	/**
+	 * Answers the current question and runs the sort until the next one.
+	 *
+	 * @param result negative if the left item goes first, positive if the right one does, 0 if neither
+	 */
+	answer (result: number): Promise<void> {
+		let question = this.prompt.question;
+		if (question === null) {
+			throw new Error("There is no question waiting for an answer.");
+		}
+		let answer: Answer = { left: question.left, right: question.right, result: Math.sign(result) };
+		if (this.criteria.length > 0) answer.criterion = this.criterion;
+		this.answers.push(answer);
+		this.undone = [];
+		if (!this.scored) this.contradiction = this.findContradiction();
+		let ready = this.nextStop();
+		this.prompt.answer(answer.result);
+		return ready;
+	}
+
+	/**
+	 * Takes back the human's last answers and runs the sort again from what is left, as if they had never been given.
+	 * The rules' answers since then go too; the rules give them again where they are still asked for. The undone answers
+	 * can be put back with redo() until a new answer is given.
+	 *
+	 * @param steps how many of the human's answers to take back
+	 */
+	undo (steps = 1): Promise<void> {
+		let given = this.answers.map((_, i) => i).filter(i => this.answers[i].rule === undefined);
+		steps = Math.min(steps, given.length);
+		if (steps <= 0) {
+			throw new Error("There is no answer to undo.");
+		}
+		let taken = this.answers.splice(given[given.length - steps]);
+		this.undone.push(...taken.filter(answer => answer.rule === undefined).reverse());
+		return this.restart();
+	}
+
+	/**
+	 * Puts back answers taken away by undo().
+	 *
+	 * @param steps how many answers to put back
+	 */
+	redo (steps = 1): Promise<void> {
+		steps = Math.min(steps, this.undone.length);
+		if (steps <= 0) {
+			throw new Error("There is no answer to redo.");
+		}
+		this.answers.push(...this.undone.splice(this.undone.length - steps).reverse());
+		return this.restart();
+	}
+
+	/**
+	 * Changes an earlier answer and runs the sort again. Everything that followed from the old answer is asked or
+	 * inferred anew; the other answers still stand. A rule's answer that is changed becomes the human's. Clears what
+	 * undo() took back.
+	 *
+	 * @param index position of the answer in answers
+	 * @param result the new comparator value for the same left and right items
+	 */
+	revise (index: number, result: number): Promise<void> {
+		let answer = this.answers[index];
+		if (answer === undefined) {
+			throw new Error("There is no answer " + index + " to revise.");
+		}
+		let { rule, ...given } = answer;
+		this.answers[index] = { ...given, result: Math.sign(result) };
+		this.undone = [];
+		return this.restart();
+	}
+
+	/**
+	 * Changes how much each criterion counts, and combines the result again if there is one. Nothing is asked again.
+	 *
+	 * @param weights one per criterion, not negative
+	 */
+	setWeights (weights: number[]) {
+		if (weights.length !== this.criteria.length || weights.some(weight => !(weight >= 0))) {
+			throw new Error("There must be one weight of 0 or more per criterion.");
+		}
+		this.weights = weights.slice();
+		if (this.criterionOrders !== null) this.finish(this.combine(this.criterionOrders));
+	}
+
+	/**
+	 * Finishes a scoring session with the answers given so far. The current question goes unanswered.
+	 */
+	stop (): Promise<void> {
+		if (!this.canStop) {
+			throw new Error("Only an unfinished scoring session can be stopped early.");
+		}
+		return this.restart(this.received);
+	}
+
+	/**
+	 * Stops the sort where it is, for when the human walks away from it. The question is withdrawn and anything waiting
+	 * on the session rejects with SortAbortedError. The answers are kept, and resume() carries on from them.
+	 */
+	cancel () {
+		if (!this.started || this.done || this.cancelled) return;
+		this.generation++;
+		this.controller.abort();
+		this.prompt.drop();
+		this.cancelled = true;
+		this.wake(new SortAbortedError());
+	}
+
+	/**
+	 * Runs a cancelled session again, up to the question it was cancelled at.
+	 */
+	resume (): Promise<void> {
+		if (!this.cancelled) {
+			throw new Error("Only a cancelled session can be resumed.");
+		}
+		return this.restart();
+	}
+
+	snapshot (): SessionSnapshot<T> {
+		return {
+			version: SESSION_VERSION,
+			items: this.items.slice(),
+			answers: this.answers.map(answer => ({ ...answer })),
+			strategy: this.strategy,
+			topK: this.topK,
+			base: this.base,
+			previous: this.previous,
+			scoring: { ...this.scoring },
+			rules: this.rules.definitions.slice(),
+			criteria: this.criteria.slice(),
+			weights: this.weights.slice(),
+		};
+	}
+
+	toJSON (): SessionSnapshot<T> {
+		return this.snapshot();
+	}
+
+	/**
+	 * Rebuilds the session from its answers and runs it again.
+	 *
+	 * @param stopAt the number of comparisons to finish a scoring run at, in place of maxComparisons
+	 */
+	private restart (stopAt?: number): Promise<void> {
+		if (!this.started) {
+			throw new Error("Session has not been started.");
+		}
+		this.stopAt = stopAt;
+		this.rebuildGraph();
+		return this.run();
+	}
+
+	/**
+	 * Starts a fresh sort over the items. Any earlier run is aborted and ignored.
+	 */
+	private run (): Promise<void> {
+		let generation = ++this.generation;
+		this.controller.abort();
+		let controller = new AbortController();
+		this.controller = controller;
+		this.cancelled = false;
+		this.prompt.drop();
+		this.result = null;
+		this.order = null;
+		this.scores = null;
+		this.criterionOrders = null;
+		this.received = 0;
+		this.rules.resetHits();
+		for (let answer of this.answers) {
+			if (answer.rule !== undefined) this.rules.hits[answer.rule]++;
+		}
+		let ready = this.nextStop();
+		let progress = (remaining: Estimate) => {
+			if (generation === this.generation) this.remaining = remaining;
+		};
+		this.sort(generation, controller.signal, progress).then(order => {
+			if (generation !== this.generation) return;
+			this.remaining = NO_COST;
+			this.finish(order);
+			this.wake();
+		}, error => {
+			if (generation === this.generation) this.wake(error);
+		});
+		return ready;
+	}
+
+	/**
+	 * Sorts on every criterion in turn and combines the rankings, or sorts once if there are no criteria.
+	 */
+	private async sort (generation: number, signal: AbortSignal, progress: ProgressListener): Promise<Ranking<number>> {
+		let orders: Ranking<number>[] = [];
+		for (let criterion = 0; criterion < this.graphs.length; criterion++) {
+			if (generation === this.generation) this.criterion = criterion;
+			orders.push(await this.sortOn(criterion, generation, signal, progress));
+		}
+		if (this.criteria.length == 0) return orders[0];
+		if (generation === this.generation) this.criterionOrders = orders;
+		return this.combine(orders);
+	}
+
+	private async sortOn (criterion: number, generation: number, signal: AbortSignal, progress: ProgressListener): Promise<Ranking<number>> {
+		let indices = this.items.map((_, i) => i);
+		let graph = this.graphs[criterion];
+		this.sorter = null;
+		this.trace = null;
+		if (this.scored) {
+			// Replaying the answers one question at a time would refit the scores after each of them
+			let history = this.answersOn(criterion).map((answer): [number, number, number] => [answer.left, answer.right, answer.result]);
+			if (generation === this.generation) this.received += history.length;
+			let compare = async (a: number, b: number) => {
+				let result = await this.ask(a, b, generation);
+				if (generation === this.generation) this.received++;
+				return result;
+			};
+			let scores = await scoreSort(indices, abortable(compare, signal), { ...this.scoring, maxComparisons: this.stopAt ?? this.scoring.maxComparisons }, progress, history);
+			if (generation === this.generation && this.criteria.length == 0) this.scores = scores;
+			return scores.map(score => [score.item]);
+		}
+		let compare = graph.wrap((a, b) => this.ask(a, b, generation));
+		if (this.previous !== undefined) {
+			let seed = this.previous.reduce((all, tier) => all.concat(tier), []);
+			let seeded = new Set(seed);
+			seed = seed.concat(indices.filter(i => !seeded.has(i)));
+			return graph.tiers(await refreshSort(seed, abortable(compare, signal), progress));
+		}
+		if (this.base !== undefined) {
+			let placed = new Set(this.base.reduce((all, tier) => all.concat(tier), []));
+			return insertIntoRanking(this.base, indices.filter(i => !placed.has(i)), abortable(compare, signal), progress);
+		}
+		this.trace = new SortTrace<number>();
+		let observer = (event: SortEvent<number>) => {
+			if (generation === this.generation) this.trace?.record(event);
+		};
+		let sorter = new Sorter(indices, { strategy: this.strategy, topK: this.topK, signal, progress, observer });
+		this.sorter = sorter;
+		return graph.tiers(await sorter.sort(compare));
+	}
+
+	private combine (orders: Ranking<number>[]): Ranking<number> {
+		return weightedRanking(this.items.length, orders, this.weights);
+	}
+
+	private finish (order: Ranking<number>) {
+		this.order = order;
+		this.result = order.map(tier => tier.map(i => this.items[i]));
+	}
+
+	private answersOn (criterion: number): Answer[] {
+		return this.answers.filter(answer => (answer.criterion ?? 0) === criterion);
+	}
+
+	/**
+	 * The answers of the pin rules, for every criterion, unless the pair was answered already. They go in up front, with
+	 * the human's, so that the graph follows them on to other pairs and they cannot be outvoted by its inferences; an
+	 * answer that goes against a pin shows up as a contradiction.
+	 */
+	private pinnedAnswers (): Answer[] {
+		let pinned: Answer[] = [];
+		for (let definition of this.rules.definitions) {
+			if (definition.kind != "pin") continue;
+			let keys = this.items.map(item => duplicateKey(item.label));
+			let [above, below] = [duplicateKey(definition.above), duplicateKey(definition.below)];
+			for (let left of keys.flatMap((key, i) => key == above ? [i] : [])) {
+				for (let right of keys.flatMap((key, i) => key == below ? [i] : [])) {
+					for (let criterion = 0; criterion < Math.max(1, this.criteria.length); criterion++) {
+						let answered = this.answers.concat(pinned).some(answer => (answer.criterion ?? 0) === criterion
+							&& (answer.left === left && answer.right === right || answer.left === right && answer.right === left));
+						// An earlier rule that decides the pair still goes first
+						let decided = this.rules.decide(this.items[left], this.items[right]);
+						if (left === right || answered || decided === undefined) continue;
+						let answer: Answer = { left, right, result: decided.result, rule: decided.rule };
+						if (this.criteria.length > 0) answer.criterion = criterion;
+						pinned.push(answer);
+					}
+				}
+			}
+		}
+		return pinned;
+	}
+
+	private rebuildGraph () {
+		this.graphs = [];
+		for (let criterion = 0; criterion < Math.max(1, this.criteria.length); criterion++) {
+			let graph = new ComparisonGraph<number>();
+			for (let answer of this.answersOn(criterion)) {
+				graph.record(answer.left, answer.right, answer.result);
+			}
+			this.graphs.push(graph);
+		}
+		this.contradiction = this.scored ? null : this.findContradiction();
+	}
+
+	/**
+	 * The first contradiction among the answers on any one criterion, numbered as in answers. Answers on different
+	 * criteria are free to disagree.
+	 */
+	private findContradiction (): Contradiction | null {
+		for (let criterion = 0; criterion < this.graphs.length; criterion++) {
+			let positions = this.answers.map((_, i) => i).filter(i => (this.answers[i].criterion ?? 0) === criterion);
+			let found = findContradiction(positions.map(i => this.answers[i]));
+			if (found !== null) return found.map(step => ({ ...step, index: positions[step.index] }));
+		}
+		return null;
+	}
+
+	private ask (a: number, b: number, generation: number): Promise<number> {
+		// A run that has been replaced is being aborted and must not put its question up meanwhile
+		if (generation !== this.generation) return new Promise(() => {});
+		let decided = this.rules.decide(this.items[a], this.items[b]);
+		if (decided !== undefined) {
+			let answer: Answer = { left: a, right: b, result: decided.result, rule: decided.rule };
+			if (this.criteria.length > 0) answer.criterion = this.criterion;
+			this.answers.push(answer);
+			return Promise.resolve(decided.result);
+		}
+		return this.prompt.compare(a, b);
+	}
+
+	private nextStop (): Promise<void> {
+		return new Promise((resolve, reject) => {
+			this.waiting.push({ resolve, reject });
+		});
+	}
+
+	private wake (error?: unknown) {
+		let waiting = this.waiting;
+		this.waiting = [];
+		for (let waiter of waiting) {
+			if (error === undefined) waiter.resolve();
+			else waiter.reject(error);
+		}
+	}
+}
+
+/**
+ * Whether a value parsed from JSON is an object with fields, not null or an array.
+ */
+function isObject (value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIndex (value: unknown, length: number): boolean {
+	return Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+}
+
+function isRanking (value: unknown, length: number): boolean {
+	if (!Array.isArray(value) || !value.every(tier => Array.isArray(tier) && tier.every(index => isIndex(index, length)))) {
+		return false;
+	}
+	let indices = value.reduce((all: unknown[], tier: unknown[]) => all.concat(tier), []);
+	return new Set(indices).size == indices.length;
+}
+
+function isStringRecord (value: unknown): boolean {
+	return isObject(value) && Object.values(value).every(field => typeof field === "string");
+}
+
+function isRuleDefinition (value: unknown): boolean {
+	if (!isObject(value)) return false;
+	switch (value.kind) {
+	case "numeric":
+		return typeof value.field === "string" && (value.first === "higher" || value.first === "lower");
+	case "pin":
+		return typeof value.above === "string" && typeof value.below === "string";
+	case "tags":
+		return typeof value.field === "string" && Array.isArray(value.priority) && value.priority.every(tag => typeof tag === "string");
+	default:
+		return false;
+	}
+}
+
+/**
+ * Checks that a value read from outside has the shape of a snapshot of a session of items.
+ */
+function checkSnapshot (value: unknown): SessionSnapshot<Item> {
+	if (!isObject(value) || !Array.isArray(value.items) || !Array.isArray(value.answers)) {
+		throw new Error("This is not a saved ranking.");
+	}
+	if (value.version !== SESSION_VERSION) {
+		throw new Error("Unsupported session version " + value.version + ".");
+	}
+	let items = value.items;
+	let invalid = (what: string) => new Error("The saved ranking has " + what + ".");
+	if (!items.every(item => isObject(item) && typeof item.label === "string")) throw invalid("an item without a label");
+	if (!items.every(item => item.metadata === undefined || isStringRecord(item.metadata))) {
+		throw invalid("an item whose metadata is not text");
+	}
+	if (!items.every(item => ["subtitle", "note"].every(field => item[field] === undefined || typeof item[field] === "string"))) {
+		throw invalid("an item with a subtitle or note that is not text");
+	}
+	// Links and images are followed and loaded as they are, so one from a file or a link must not be able to run anything
+	if (!items.every(item => item.link === undefined || (typeof item.link === "string" && isSafeLink(item.link)))) {
+		throw invalid("a link that is not http, https or mailto");
+	}
+	if (!items.every(item => item.image === undefined || (typeof item.image === "string" && isSafeImage(item.image)))) {
+		throw invalid("an image that is not a data, http or https URL");
+	}
+	for (let answer of value.answers) {
+		if (!isObject(answer) || !isIndex(answer.left, items.length) || !isIndex(answer.right, items.length)
+			|| typeof answer.result !== "number" || !(answer.criterion === undefined || Number.isInteger(answer.criterion))
+			|| !(answer.rule === undefined || isIndex(answer.rule, Array.isArray(value.rules) ? value.rules.length : 0))) {
+			throw invalid("an answer that does not compare two of its items");
+		}
+	}
+	if (value.strategy !== undefined && typeof value.strategy !== "string") throw invalid("an unknown strategy");
+	if (value.topK !== undefined && !(Number.isInteger(value.topK) && (value.topK as number) > 0)) throw invalid("an invalid top K");
+	if (value.base !== undefined && !isRanking(value.base, items.length)) throw invalid("an invalid base ranking");
+	if (value.previous !== undefined && !isRanking(value.previous, items.length)) throw invalid("an invalid previous ranking");
+	let scoring = value.scoring;
+	if (scoring !== undefined && !(isObject(scoring)
+		&& (scoring.confidence === undefined || (typeof scoring.confidence === "number" && scoring.confidence > 0 && scoring.confidence < 1))
+		&& (scoring.maxComparisons === undefined || (Number.isInteger(scoring.maxComparisons) && (scoring.maxComparisons as number) >= 0)))) {
+		throw invalid("invalid scoring options");
+	}
+	if (value.rules !== undefined && !(Array.isArray(value.rules) && value.rules.every(isRuleDefinition))) {
+		throw invalid("invalid rules");
+	}
+	if (value.criteria !== undefined && !(Array.isArray(value.criteria) && value.criteria.every(name => typeof name === "string"))) {
+		throw invalid("invalid criteria");
+	}
+	let criteria = Array.isArray(value.criteria) ? value.criteria.length : 0;
+	if (value.weights !== undefined && !(Array.isArray(value.weights) && value.weights.length == criteria
+		&& value.weights.every(weight => typeof weight === "number" && weight >= 0))) {
+		throw invalid("invalid weights");
+	}
+	return value as unknown as SessionSnapshot<Item>;
+}
@@ -0,0 +1,137 @@
+/*
+ * Sorter instances
+ *
+ * A sort driven by a human can sit on one comparison for minutes, and the human may leave before answering. A Sorter
+ * is one such sort: it works on its own copy of the items, can be aborted with an AbortSignal at any point -- including
+ * while a comparison is pending -- and keeps its state afterwards, so it can be asked how far it got and why it stopped.
+ * An observer hears every comparison asked and answered, and whatever steps the strategy reports.
+ */
+import { strategies, topK } from './TimSort'
+import type { StrategyName } from './TimSort'
+import { NO_COST } from './Progress'
+import type { Estimate, ProgressListener } from './Progress'
+import type { SortObserver } from './SortEvents'
+
+export { Sorter, SortAbortedError, abortable }
+export type { SorterOptions, SorterState }
+
+type SorterState = "ready" | "running" | "finished" | "aborted" | "failed";
+
+interface SorterOptions<T> {
+	/**
+	 * Defaults to timsort.
+	 */
+	strategy?: StrategyName;
+	/**
+	 * Only find and order the best this many items, ignoring strategy.
+	 */
+	topK?: number;
+	signal?: AbortSignal;
+	progress?: ProgressListener;
+	observer?: SortObserver<T>;
+}
+
+/**
+ * What a sort rejects with when its signal is aborted.
+ */
+class SortAbortedError extends Error {
+	constructor () {
+		super("The sort was aborted.");
+		this.name = "SortAbortedError";
+	}
+}
+
+class Sorter<T> {
+	readonly items: T[];
+	readonly strategy: StrategyName;
+	readonly topK: number | undefined;
+	state: SorterState = "ready";
+	/**
+	 * The array the strategy sorts. timsort works on it in place, so after an abort it shows how far the sort got.
+	 */
+	readonly working: T[];
+	comparisons = 0;
+	remaining: Estimate = NO_COST;
+	/**
+	 * The comparison being waited for, or the one that was pending when the sort was aborted.
+	 */
+	pending: [T, T] | null = null;
+	result: T[] | null = null;
+	/**
+	 * Why the sort did not finish: a SortAbortedError, or whatever the comparator threw.
+	 */
+	error: unknown = undefined;
+
+	private signal: AbortSignal | undefined;
+	private progress: ProgressListener | undefined;
+	private observer: SortObserver<T> | undefined;
+
+	constructor (items: T[], options: SorterOptions<T> = {}) {
+		this.items = items.slice();
+		this.working = items.slice();
+		this.strategy = options.strategy ?? "timsort";
+		if (!(this.strategy in strategies)) {
+			throw new Error("Unknown sort strategy " + this.strategy + ".");
+		}
+		this.topK = options.topK;
+		this.signal = options.signal;
+		this.progress = options.progress;
+		this.observer = options.observer;
+	}
+
+	/**
+	 * Sorts the items. A Sorter sorts once; sorting again takes a new one.
+	 *
+	 * @param compareFn comparator, negative if a goes first
+	 * @throws SortAbortedError if the signal is aborted first
+	 */
+	async sort (compareFn: (a: T, b: T) => Promise<number>): Promise<T[]> {
+		if (this.state !== "ready") {
+			throw new Error("This sorter has already run.");
+		}
+		this.state = "running";
+		let compare = abortable(async (a: T, b: T) => {
+			this.pending = [a, b];
+			this.observer?.({ type: "comparisonAsked", a, b });
+			let result = await compareFn(a, b);
+			this.pending = null;
+			this.comparisons++;
+			this.observer?.({ type: "comparisonAnswered", a, b, result });
+			return result;
+		}, this.signal);
+		let progress = (remaining: Estimate) => {
+			this.remaining = remaining;
+			this.progress?.(remaining);
+		};
+
+		try {
+			let result = this.topK === undefined
+				? await strategies[this.strategy](this.working, compare, progress, this.observer)
+				: await topK(this.working, this.topK, compare, progress, this.observer);
+			this.result = result;
+			this.remaining = NO_COST;
+			this.state = "finished";
+			return result;
+		} catch (error) {
+			this.error = error;
+			this.state = error instanceof SortAbortedError ? "aborted" : "failed";
+			throw error;
+		}
+	}
+}
+
+/**
+ * Wraps compareFn so that it rejects with SortAbortedError once signal is aborted, without waiting for a pending
+ * comparison to be answered.
+ */
+function abortable<T> (compareFn: (a: T, b: T) => Promise<number>, signal: AbortSignal | undefined): (a: T, b: T) => Promise<number> {
+	if (signal === undefined) return compareFn;
+	return (a: T, b: T) => {
+		if (signal.aborted) return Promise.reject(new SortAbortedError());
+		return new Promise((resolve, reject) => {
+			let abort = () => reject(new SortAbortedError());
+			signal.addEventListener("abort", abort, { once: true });
+			compareFn(a, b).then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+		});
+	};
+}
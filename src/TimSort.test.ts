@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { binaryInsertionSort, mergeInsertionSort, strategies, topK } from './TimSort'
+
+// The same shuffles every run
+function shuffled (n: number, seed: number): number[] {
+	let items = Array.from({ length: n }, (_, i) => i);
+	for (let i = n - 1; i > 0; i--) {
+		seed = (seed * 16807) % 2147483647;
+		let j = seed % (i + 1);
+		[items[i], items[j]] = [items[j], items[i]];
+	}
+	return items;
+}
+
+// Compares numbers, counting the comparisons
+function counting () {
+	let counter = {
+		asked: 0,
+		compare: async (a: number, b: number) => {
+			counter.asked++;
+			return a - b;
+		},
+	};
+	return counter;
+}
+
+// The fewest comparisons merge-insertion needs at worst for 0 to 12 items
+const FORD_JOHNSON = [0, 0, 1, 3, 5, 7, 10, 13, 16, 19, 22, 26, 30];
+
+describe("strategies", () => {
+	for (let name of ["timsort", "mergeInsertion", "binaryInsertion"] as const) {
+		it(`${name} sorts`, async () => {
+			for (let n of [0, 1, 2, 7, 40, 100]) {
+				expect(await strategies[name](shuffled(n, n + 1), counting().compare)).toEqual(Array.from({ length: n }, (_, i) => i));
+			}
+		});
+	}
+
+	// timsort sorts in place, which the Sorter shows while it runs
+	for (let name of ["mergeInsertion", "binaryInsertion"] as const) {
+		it(`${name} leaves its input alone`, async () => {
+			let items = shuffled(20, 9);
+			let copy = items.slice();
+			await strategies[name](items, counting().compare);
+			expect(items).toEqual(copy);
+		});
+	}
+});
+
+describe("mergeInsertionSort", () => {
+	it("never needs more comparisons than the Ford-Johnson bound", async () => {
+		for (let n = 1; n < FORD_JOHNSON.length; n++) {
+			for (let seed = 1; seed <= 20; seed++) {
+				let counter = counting();
+				await mergeInsertionSort(shuffled(n, seed), counter.compare);
+				expect(counter.asked).toBeLessThanOrEqual(FORD_JOHNSON[n]);
+			}
+		}
+	});
+});
+
+describe("binaryInsertionSort", () => {
+	it("keeps equal items in their order", async () => {
+		let items = [{ key: 1, name: "a" }, { key: 0, name: "b" }, { key: 1, name: "c" }, { key: 0, name: "d" }];
+		let sorted = await binaryInsertionSort(items, async (a, b) => a.key - b.key);
+		expect(sorted.map(item => item.name)).toEqual(["b", "d", "a", "c"]);
+	});
+});
+
+describe("topK", () => {
+	it("finds and orders only the best k", async () => {
+		expect(await topK(shuffled(50, 3), 5, counting().compare)).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	it("asks far fewer questions than a full sort", async () => {
+		let counter = counting();
+		await topK(shuffled(200, 5), 3, counter.compare);
+		expect(counter.asked).toBeLessThan(300);
+	});
+
+	it("gives every item when k is more than there are", async () => {
+		expect(await topK([3, 1, 2], 10, counting().compare)).toEqual([1, 2, 3]);
+		expect(await topK([3, 1, 2], 0, counting().compare)).toEqual([]);
+	});
+
+	it("keeps the earlier of two tied items", async () => {
+		let items = [{ key: 0, name: "a" }, { key: 1, name: "b" }, { key: 1, name: "c" }];
+		let best = await topK(items, 2, async (a, b) => a.key - b.key);
+		expect(best.map(item => item.name)).toEqual(["a", "b"]);
+	});
+
+	it("refuses a negative k", async () => {
+		await expect(topK([1, 2], -1, counting().compare)).rejects.toThrow(/k\(-1\)/);
+	});
+});
@@ -4,9 +4,32 @@
  * Licensed under GPL 3 ( http://www.gnu.org/licenses/gpl.html ) license.
  *
  */
-export { timsort, arraycopy }
+import { addCost, fordJohnsonCost, insertionCost, lessMade, mergeCollapseCost, mergeCost, searchCost, NO_COST } from './Progress'
+import type { Estimate, ProgressListener } from './Progress'
+import { bradleyTerrySort } from './BradleyTerry'
+import type { SortObserver } from './SortEvents'
+
+export { timsort, arraycopy, binaryInsertionSort, mergeInsertionSort, topK, reporting, strategies }
+export type { SortStrategy, StrategyName }
+
+/**
+ * Anything that sorts with an async comparator can drive a session. Every comparison is a question for the human, so
+ * strategies differ mostly in how many of those they need. If given a progress listener, a strategy tells it before
+ * each comparison how many more it expects to make. If given an observer, it tells it the steps it takes; strategies
+ * that have no steps worth showing ignore it.
+ */
+type SortStrategy = <T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener, observer?: SortObserver<T>) => Promise<T[]>;
+
+type StrategyName = "timsort" | "mergeInsertion" | "binaryInsertion" | "bradleyTerry";
 
-async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)) : Promise<T[]> {
+const strategies: Record<StrategyName, SortStrategy> = {
+	timsort: timsort,
+	mergeInsertion: mergeInsertionSort,
+	binaryInsertion: binaryInsertionSort,
+	bradleyTerry: bradleyTerrySort,
+};
+
+async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener, observer?: SortObserver<T>) : Promise<T[]> {
 	
 	let global_a: T[] = arr;
 	let MIN_MERGE: number = 32;
@@ -14,7 +37,20 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 	let runBase: number[] = [];
 	let runLen: number[] = [];
 	let stackSize = 0;
-	let compare = compareFn;
+
+	// Only read by remaining(), for the progress estimate
+	let sortHi = 0; // End of the range being sorted
+	let runStart = 0; // Start of the part not yet on the run stack
+	let minRun = 0;
+	let insertion: { lo: number, start: number, hi: number, window: number } | null = null; // binarySort in progress
+	let merging: { cost: Estimate, at: number } | null = null; // mergeAt in progress
+	let made = 0; // Comparisons so far
+
+	let compare = progress === undefined ? compareFn : (a: T, b: T) => {
+		progress(remaining());
+		made++;
+		return compareFn(a, b);
+	};
 
 	await sort(global_a, 0, arr.length, compare);
 	return global_a;
@@ -25,7 +61,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          */
 
 	async function sort (a: T[], lo: number, hi: number, compare: typeof compareFn) {
-		console.log("entering sort")
 		if (typeof compare != "function") {
 			throw new Error("Compare is not a function.");
 		}
@@ -38,8 +73,12 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 		let nRemaining = hi - lo;
 		if (nRemaining < 2) return; // Arrays of size 0 and 1 are always sorted
 
+		sortHi = hi;
+		runStart = lo;
+
 		// If array is small, do a "mini-TimSort" with no merges
 		if (nRemaining < MIN_MERGE) {
+			minRun = nRemaining;
 			let initRunLen: number = await countRunAndMakeAscending(a, lo, hi, compare)
 			await binarySort(a, lo, hi, lo + initRunLen, compare);
 			return;
@@ -54,7 +93,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
                  * merging runs to maintain stack invariant.
                  */
 		let ts = [];
-		let minRun = minRunLength(nRemaining);
+		minRun = minRunLength(nRemaining);
 		do {
 			// Identify next run
 			let runLenlet = await countRunAndMakeAscending(a, lo, hi, compare);
@@ -68,7 +107,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 
 			// Push run onto pending-run stack, and maybe merge
 			pushRun(lo, runLenlet);
-			mergeCollapse();
+			await mergeCollapse();
 
 			// Advance to find next run
 			lo += runLenlet;
@@ -76,7 +115,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 		} while (nRemaining != 0);
 
 		// Merge all remaining runs to complete sort
-		mergeForceCollapse();
+		await mergeForceCollapse();
 	}
 
 
@@ -94,10 +133,10 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * @param c comparator to used for the sort
          */
 	async function binarySort (a: T[], lo: number, hi: number, start: number, compare: typeof compareFn) {
-		console.log("entering binary sort")
 		if (start == lo) start++;
 		for (; start < hi; start++) {
 			let pivot = a[start];
+			observer?.({ type: "insertionStarted", sorted: a.slice(lo, start), item: pivot });
 
 			// Set left (and right) to the index where a[start] (pivot) belongs
 			let left = lo;
@@ -107,6 +146,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			*/
 			while (left < right) {
 				let mid = (left + right) >>> 1;
+				insertion = { lo, start, hi, window: right - left };
 				let comparison = await compare(pivot, a[mid]);
 				if (comparison < 0)
 					right = mid;
@@ -130,7 +170,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			arraycopy(a, left, a, left + 1, n);
 			}
 			a[left] = pivot;
-			console.log("done");
 		}
 	}
 	
@@ -157,14 +196,15 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * @return the length of the run beginning at the specified position in the specified array
          */
 	async function countRunAndMakeAscending (a: T[], lo: number, hi: number, compare: typeof compareFn) {
-		console.log("entering count run and make ascending")
 		let runHi = lo + 1;
 		if (runHi === hi) {
+			observer?.({ type: "runFound", items: a.slice(lo, hi), descending: false });
 			return 1;
 		}
 
 		// Find end of run, and reverse range if descending
-		if (await compare(a[runHi++], a[lo]) < 0) { // Descending
+		let descending = await compare(a[runHi++], a[lo]) < 0;
+		if (descending) {
 			while (runHi < hi && await compare(a[runHi], a[runHi - 1]) < 0){
 				runHi++;
 			}
@@ -175,6 +215,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			}
 		}
 
+		observer?.({ type: "runFound", items: a.slice(lo, runHi), descending });
 		return runHi - lo;
 	}
 
@@ -238,6 +279,10 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 		//runLen.push(runLenArg);
 		runLen[stackSize] = runLenArg;
 		stackSize++;
+
+		insertion = null;
+		runStart = runBaseArg + runLenArg;
+		observer?.({ type: "runPushed", items: global_a.slice(runBaseArg, runStart) });
 	}
 
 	/**
@@ -248,14 +293,16 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * This method is called each time a new run is pushed onto the stack, so the invariants are guaranteed to hold for i <
          * stackSize upon entry to the method.
          */
-	function mergeCollapse () {
+	async function mergeCollapse () {
 		while (stackSize > 1) {
 			let n = stackSize - 2;
 			if (n > 0 && runLen[n - 1] <= runLen[n] + runLen[n + 1]) {
 				if (runLen[n - 1] < runLen[n + 1]) n--;
-				mergeAt(n);
+				await mergeAt(n);
+				finishMerge(n);
 			} else if (runLen[n] <= runLen[n + 1]) {
-				mergeAt(n);
+				await mergeAt(n);
+				finishMerge(n);
 			} else {
 				break; // invariant is established
 			}
@@ -265,15 +312,24 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 	/**
          * Merges all runs on the stack until only one remains. This method is called once, to complete the sort.
          */
-	function mergeForceCollapse () {
+	async function mergeForceCollapse () {
 		while (stackSize > 1) {
 			let n = stackSize - 2;
 			if (n > 0 && runLen[n - 1] < runLen[n + 1]) n--;
-			mergeAt(n);
+			await mergeAt(n);
+			finishMerge(n);
 		}
 	}
 	
 	
+	/**
+         * Tells the observer the merge at stack index i is done, once mergeAt has returned by whichever way.
+         */
+	function finishMerge (i: number) {
+		merging = null;
+		observer?.({ type: "mergeFinished", at: i, items: global_a.slice(runBase[i], runBase[i] + runLen[i]) });
+	}
+
 	/**
          * Merges the two runs at stack indices i and i+1. Run i must be the penultimate or antepenultimate run on the stack. In other
          * words, i must be equal to stackSize-2 or stackSize-3.
@@ -281,12 +337,11 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * @param i stack index of the first of the two runs to merge
          */
 	async function mergeAt (i: number) {
-		console.log("entering mergeat")
-
 		let base1 = runBase[i];
 		let len1 = runLen[i];
 		let base2 = runBase[i + 1];
 		let len2 = runLen[i + 1];
+		observer?.({ type: "mergeStarted", at: i, first: global_a.slice(base1, base1 + len1), second: global_a.slice(base2, base2 + len2) });
 
 		/*
 		* Record the length of the combined runs; if i is the 3rd-last run now, also slide over the last run (which isn't involved
@@ -299,6 +354,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			runLen[i + 1] = runLen[i + 2];
 		}
 		stackSize--;
+		merging = { cost: mergeCost(len1, len2), at: made };
 
 		/*
 		* Find where the first element of run2 goes in run1. Prior elements in run1 can be ignored (because they're already in
@@ -320,9 +376,9 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 
 		// Merge remaining runs, using tmp array with min(len1, len2) elements
 		if (len1 <= len2)
-			mergeLo(base1, len1, base2, len2);
+			await mergeLo(base1, len1, base2, len2);
 		else
-			mergeHi(base1, len1, base2, len2);
+			await mergeHi(base1, len1, base2, len2);
 	}
 
 	
@@ -342,7 +398,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          *         precede key, and the last n - k should follow it.
          */
 	async function gallopLeft (key: T, a: T[], base: number, len: number, hint: number, compare: typeof compareFn) {
-		console.log("entering gallop left")
 		let lastOfs = 0;
 		let ofs = 1;
 		if (await compare(key, a[base + hint]) > 0) {
@@ -406,8 +461,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * @return the int k, 0 <= k <= n such that a[b + k - 1] <= key < a[b + k]
          */
 	async function gallopRight (key: T, a: T[], base: number, len: number, hint: number, compare: typeof compareFn) {
-		console.log("entering gallop right")
-
 		let ofs = 1;
 		let lastOfs = 0;
 		if (await compare(key, a[base + hint]) < 0) {
@@ -471,8 +524,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 	* @param len2 length of second run to be merged (must be > 0)
 	*/
 	async function mergeLo (base1: number, len1: number, base2: number, len2: number) {
-		console.log("entering merge lo")
-
 		// Copy first run into temp array
 		let a = global_a;// For performance
 		let tmp=a.slice(base1,base1+len1);
@@ -521,6 +572,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			* One run is winning so consistently that galloping may be a huge win. So try that, and continue galloping until (if
 			* ever) neither run appears to be winning consistently anymore.
 			*/
+			observer?.({ type: "gallopEntered" });
 			do {
 				count1 = await gallopRight(a[cursor2], tmp, cursor1, len1, 0, c);
 				if (count1 != 0) {
@@ -546,6 +598,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 				if (--len1 == 1) break outer;
 				minGallop--;
 			} while (count1 >= MIN_GALLOP || count2 >= MIN_GALLOP);
+			observer?.({ type: "gallopEnded" });
 			if (minGallop < 0) minGallop = 0;
 			minGallop += 2; // Penalize for leaving gallop mode
 		} // End of "outer" loop
@@ -572,7 +625,6 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
          * @param len2 length of second run to be merged (must be > 0)
          */
 	async function mergeHi (base1: number, len1: number, base2: number, len2: number) {
-		console.log("entering merge hi")
 	
 		// Copy second run into temp array
 		let a = global_a;// For performance
@@ -625,6 +677,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 			* One run is winning so consistently that galloping may be a huge win. So try that, and continue galloping until (if
 			* ever) neither run appears to be winning consistently anymore.
 			*/
+			observer?.({ type: "gallopEntered" });
 			do {
 				count1 = len1 - await gallopRight(tmp[cursor2], a, base1, len1, len1 - 1, c);
 				if (count1 != 0) {
@@ -650,6 +703,7 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 				if (--len1 == 0) break outer;
 					minGallop--;
 			} while (count1 >= MIN_GALLOP || count2 >= MIN_GALLOP);
+			observer?.({ type: "gallopEnded" });
 			if (minGallop < 0) minGallop = 0;
 			minGallop += 2; // Penalize for leaving gallop mode
 		} // End of "outer" loop
@@ -669,6 +723,34 @@ async function timsort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>)
 	}
 
 
+	/**
+	 * Estimates the comparisons still to come from the state of the sort: what is left of the current merge, of the
+	 * binary insertion building the current run, the runs not found yet (each either already in order or needing a full
+	 * binary insertion), and the merges all those runs still need.
+	 */
+	function remaining (): Estimate {
+		let cost = NO_COST;
+		if (merging !== null) {
+			cost = lessMade(merging.cost, made - merging.at);
+		}
+
+		let upcoming: number[] = [];
+		let next = runStart;
+		if (insertion !== null) {
+			cost = addCost(cost, searchCost(insertion.window));
+			cost = addCost(cost, insertionCost(insertion.start + 1 - insertion.lo, insertion.hi - insertion.lo));
+			upcoming.push(insertion.hi - insertion.lo);
+			next = insertion.hi;
+		}
+		while (next < sortHi) {
+			let len = Math.min(minRun, sortHi - next);
+			cost = addCost(cost, { best: len - 1, worst: insertionCost(1, len).worst + 1 });
+			upcoming.push(len);
+			next += len;
+		}
+		return addCost(cost, mergeCollapseCost(runLen.slice(0, stackSize), upcoming));
+	}
+
 	/**
 	* Checks that fromIndex and toIndex are in range, and throws an appropriate exception if they aren't.
 	*
@@ -691,4 +773,176 @@ function arraycopy<T>(s: Array<T>,spos: number,d: Array<T>,dpos: number,len: num
 	while(len--){
 		d[dpos+len]=a[len];
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Plain binary insertion sort: each item is placed into the sorted prefix with a binary search, so the i-th item costs
+ * about log2(i) comparisons no matter what order the input is in. Stable, because equal items are inserted after the
+ * ones already placed.
+ *
+ * @param arr the items to sort; not modified
+ * @param compareFn comparator, negative if a goes first
+ * @return the items in sorted order
+ */
+async function binaryInsertionSort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener, observer?: SortObserver<T>) : Promise<T[]> {
+	let sorted: T[] = [];
+	let itemStart = 0; // Comparisons made before the current item
+	let compare = reporting(compareFn, progress, made => addCost(
+		lessMade(searchCost(sorted.length), made - itemStart),
+		insertionCost(sorted.length + 1, arr.length)));
+	for (let item of arr) {
+		itemStart = compare.made;
+		observer?.({ type: "insertionStarted", sorted: sorted.slice(), item });
+		let at = await insertionPoint(item, sorted, sorted.length, compare);
+		sorted.splice(at, 0, item);
+	}
+	return sorted;
+}
+
+/**
+ * Ford-Johnson merge-insertion sort. It is slow on a machine but comes closer than any other practical algorithm to the
+ * fewest comparisons possible, which is what matters when every comparison is a button click.
+ *
+ * 1. Compare the items in pairs.
+ * 2. Recursively sort the larger item of every pair.
+ * 3. Binary insert the smaller items, in the Jacobsthal order that keeps every search within a range of 2^k - 1 items.
+ *
+ * @param arr the items to sort; not modified
+ * @param compareFn comparator, negative if a goes first
+ * @return the items in sorted order
+ */
+async function mergeInsertionSort<T>(arr: T[], compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener) : Promise<T[]> {
+	let total = fordJohnsonCost(arr.length);
+	let compare = reporting(compareFn, progress, made => lessMade(total, made));
+	// Items are boxed so that positions in the chain can be found by identity even if the list has duplicates
+	let boxes = arr.map(value => ({ value }));
+	let sorted = await mergeInsertionBoxes(boxes, (a, b) => compare(a.value, b.value));
+	return sorted.map(box => box.value);
+}
+
+async function mergeInsertionBoxes<B>(items: B[], compare: ((a: B, b: B) => Promise<number>)) : Promise<B[]> {
+	if (items.length < 2) return items.slice();
+
+	// Step 1: pair up, larger element of each pair goes to "big"
+	let pairs: { big: B, small: B }[] = [];
+	for (let i = 0; i + 1 < items.length; i += 2) {
+		if (await compare(items[i], items[i + 1]) > 0)
+			pairs.push({ big: items[i], small: items[i + 1] });
+		else
+			pairs.push({ big: items[i + 1], small: items[i] });
+	}
+	let leftover = items.length % 2 == 1 ? items[items.length - 1] : null;
+
+	// Step 2: sort the pairs by their big element
+	pairs = await mergeInsertionBoxes(pairs, (p, q) => compare(p.big, q.big));
+
+	// The smallest pair's small element is known to go first, so it costs nothing
+	let chain: B[] = [pairs[0].small].concat(pairs.map(pair => pair.big));
+
+	// Step 3: insert the remaining small elements, each bounded by its partner's position in the chain
+	let pending: { item: B, bound: B | null }[] = pairs.slice(1).map(pair => ({ item: pair.small, bound: pair.big }));
+	if (leftover !== null) pending.push({ item: leftover, bound: null });
+
+	for (let index of jacobsthalOrder(pending.length)) {
+		let { item, bound } = pending[index];
+		let hi = bound === null ? chain.length : chain.indexOf(bound);
+		let at = await insertionPoint(item, chain, hi, compare);
+		chain.splice(at, 0, item);
+	}
+	return chain;
+}
+
+/**
+ * Finds and orders only the best k items, best meaning first in sort order. The best k so far are kept sorted; every
+ * further item is first compared with the worst of them, and only binary inserted if it beats it. Most items are
+ * turned away with that one comparison, so this takes about n + k log2(k) log(n/k) comparisons instead of n log2(n).
+ *
+ * An item that ties with the current k-th item does not displace it, so the earlier one keeps the place.
+ *
+ * @param arr the items to select from; not modified
+ * @param k how many items to keep
+ * @param compareFn comparator, negative if a goes first
+ * @return the first min(k, arr.length) items in sorted order
+ */
+async function topK<T>(arr: T[], k: number, compareFn: ((a: T, b: T) => Promise<number>), progress?: ProgressListener, observer?: SortObserver<T>) : Promise<T[]> {
+	if (k < 0) throw new Error("IllegalArgument k(" + k + ") < 0");
+	let best: T[] = [];
+	if (k == 0) return best;
+
+	// Filling up costs a binary insertion; after that an item costs one comparison if turned away, or that plus a search
+	let index = 0;
+	let itemStart = 0;
+	let itemCost = (filled: number): Estimate => filled < k ? searchCost(filled) : { best: 1, worst: 1 + searchCost(k - 1).worst };
+	let compare = reporting(compareFn, progress, made => {
+		let cost = lessMade(itemCost(best.length), made - itemStart);
+		for (let filled = best.length + 1; index + filled - best.length < arr.length; filled++) {
+			cost = addCost(cost, itemCost(Math.min(filled, k)));
+		}
+		return cost;
+	});
+
+	for (; index < arr.length; index++) {
+		let item = arr[index];
+		itemStart = compare.made;
+		if (best.length < k) {
+			observer?.({ type: "insertionStarted", sorted: best.slice(), item });
+			best.splice(await insertionPoint(item, best, best.length, compare), 0, item);
+		} else if (await compare(item, best[k - 1]) < 0) {
+			observer?.({ type: "insertionStarted", sorted: best.slice(0, k - 1), item });
+			best.splice(await insertionPoint(item, best, k - 1, compare), 0, item);
+			best.pop();
+		}
+	}
+	return best;
+}
+
+/**
+ * Wraps compareFn so that progress hears the remaining estimate before every comparison. The wrapper counts the
+ * comparisons made through it, and passes that count to remaining.
+ */
+function reporting<T>(compareFn: ((a: T, b: T) => Promise<number>), progress: ProgressListener | undefined, remaining: (made: number) => Estimate) {
+	const compare = (a: T, b: T) => {
+		if (progress !== undefined) progress(remaining(compare.made));
+		compare.made++;
+		return compareFn(a, b);
+	};
+	compare.made = 0;
+	return compare;
+}
+
+
+/**
+ * The order in which merge-insertion inserts its pending items: 1 0, 3 2, 9 8 7 6 5 4, ... Each group ends at the next
+ * Jacobsthal number (3, 5, 11, 21, ...) and is inserted back to front. Indices are into the pending list, which starts
+ * at the second pair.
+ */
+function jacobsthalOrder(count: number) : number[] {
+	let order: number[] = [];
+	let previous = 1;
+	let current = 3;
+	while (order.length < count) {
+		for (let i = Math.min(current, count + 1); i > previous; i--) {
+			order.push(i - 2);
+		}
+		let next = current + 2 * previous;
+		previous = current;
+		current = next;
+	}
+	return order;
+}
+
+/**
+ * Binary search for where key belongs in a[0, hi), after any elements equal to it.
+ */
+async function insertionPoint<T>(key: T, a: T[], hi: number, compareFn: ((a: T, b: T) => Promise<number>)) : Promise<number> {
+	let left = 0;
+	let right = hi;
+	while (left < right) {
+		let mid = (left + right) >>> 1;
+		if (await compareFn(key, a[mid]) < 0)
+			right = mid;
+		else
+			left = mid + 1;
+	}
+	return left;
+}
@@ -0,0 +1,277 @@
+/*
+ * Command-line sorter
+ *
+ * The same sort sessions as the app, in a terminal. The list comes from a file or stdin, every question is answered
+ * with a single key, and the ranking goes to stdout in one of the export formats; questions and progress go to stderr,
+ * so the output can be piped. A session file is written after every answer and picked up again on the next run, and an
+ * answers file replays earlier answers without asking anything, which makes a ranking reproducible in a script.
+ *
+ * Build with `npm run build:cli`, then run `node dist-cli/cli.js --help`.
+ */
+import { openSync, readFileSync, writeFileSync, existsSync, renameSync } from 'fs'
+import { ReadStream } from 'tty'
+import { exportRanking, EXPORT_FORMATS } from './Export'
+import type { ExportFormat } from './Export'
+import { duplicateKey, importList, withoutDuplicates } from './Import'
+import type { Item } from './Item'
+import { SortSession } from './SortSession'
+import type { Answer } from './SortSession'
+import { strategies } from './TimSort'
+import type { StrategyName } from './TimSort'
+
+const USAGE = `Usage: qualitative-sort [options] [list-file]
+
+Ranks a list by asking which of two items goes first. Reads the list from list-file, or stdin if there is none.
+
+Options:
+  -f, --format <format>      output format: ${Object.keys(EXPORT_FORMATS).join(", ")} (default markdown)
+  -s, --strategy <name>      ${Object.keys(strategies).join(", ")} (default timsort)
+  -k, --top <k>              only rank the best k items
+  -c, --criteria <names>     rank on each of these comma separated criteria in turn and combine them
+  -S, --session <file>       save the session to file after every answer; resume it if the file exists
+  -a, --answers <file>       answer from this file (a saved session or a JSON export) and never ask;
+                             fails if the answers do not settle the ranking, and cannot be
+                             used to resume a session
+  -h, --help                 show this help
+
+Keys: 1 or ← left first, 2 or ↓ equal, 3 or → right first, u undo, r redo, q save and quit.`;
+
+interface CliOptions {
+	list?: string;
+	format: ExportFormat;
+	strategy: StrategyName;
+	topK?: number;
+	criteria?: string[];
+	session?: string;
+	answers?: string;
+	help: boolean;
+}
+
+/**
+ * An answer that names its items by label, so it can be replayed on a list in a different order.
+ */
+interface LabelledAnswer {
+	left: string;
+	right: string;
+	result: number;
+	criterion?: number;
+}
+
+/**
+ * Exit codes: 1 for bad input, 2 when an answers file runs out, 130 when the user quits.
+ */
+class CliError extends Error {
+	constructor (message: string, readonly code = 1) {
+		super(message);
+	}
+}
+
+function parseArguments (args: string[]): CliOptions {
+	let options: CliOptions = { format: "markdown", strategy: "timsort", help: false };
+	for (let i = 0; i < args.length; i++) {
+		let arg = args[i];
+		let value = () => {
+			let next = args[++i];
+			if (next === undefined) throw new CliError(arg + " needs a value.");
+			return next;
+		};
+		switch (arg) {
+		case "-f":
+		case "--format":
+			options.format = value() as ExportFormat;
+			if (!(options.format in EXPORT_FORMATS)) throw new CliError("Unknown format " + options.format + ".");
+			break;
+		case "-s":
+		case "--strategy":
+			options.strategy = value() as StrategyName;
+			if (!(options.strategy in strategies)) throw new CliError("Unknown strategy " + options.strategy + ".");
+			break;
+		case "-k":
+		case "--top":
+			options.topK = parseInt(value());
+			if (isNaN(options.topK) || options.topK < 1) throw new CliError("--top needs a positive number.");
+			break;
+		case "-c":
+		case "--criteria":
+			options.criteria = value().split(",").map(name => name.trim()).filter(name => name !== "");
+			break;
+		case "-S":
+		case "--session":
+			options.session = value();
+			break;
+		case "-a":
+		case "--answers":
+			options.answers = value();
+			break;
+		case "-h":
+		case "--help":
+			options.help = true;
+			break;
+		default:
+			if (arg.startsWith("-") && arg !== "-") throw new CliError("Unknown option " + arg + ".");
+			if (options.list !== undefined) throw new CliError("Only one list file can be given.");
+			options.list = arg;
+		}
+	}
+	return options;
+}
+
+/**
+ * Reads answers from a saved session or a JSON export. Both number their items, so the answers are turned into labels.
+ */
+function readAnswers (text: string): LabelledAnswer[] {
+	let data = JSON.parse(text);
+	if (!Array.isArray(data?.items) || !Array.isArray(data?.answers ?? data?.comparisons)) {
+		throw new CliError("The answers file is neither a saved session nor a JSON export.");
+	}
+	const items: Item[] = data.items;
+	const answers: Answer[] = data.answers ?? data.comparisons;
+	return answers.map((answer, i) => {
+		let left = items[answer?.left];
+		let right = items[answer?.right];
+		if (typeof left?.label !== "string" || typeof right?.label !== "string" || typeof answer.result !== "number") {
+			throw new CliError(`Answer ${i + 1} in the answers file does not compare two of its items.`);
+		}
+		return { left: left.label, right: right.label, result: answer.result, criterion: answer.criterion };
+	});
+}
+
+/**
+ * Puts labelled answers in terms of the session's items. Answers about items that are not in the list are dropped.
+ */
+function indexAnswers (items: Item[], answers: LabelledAnswer[]): Answer[] {
+	let indexOf = new Map(items.map((item, i) => [duplicateKey(item.label), i]));
+	let indexed: Answer[] = [];
+	for (let answer of answers) {
+		let left = indexOf.get(duplicateKey(answer.left));
+		let right = indexOf.get(duplicateKey(answer.right));
+		if (left !== undefined && right !== undefined) indexed.push({ left, right, result: answer.result, criterion: answer.criterion });
+	}
+	return indexed;
+}
+
+function readList (options: CliOptions): Item[] {
+	let name = options.list ?? "stdin";
+	let text = readFileSync(options.list === undefined || options.list === "-" ? 0 : options.list, "utf8");
+	let imported = importList(text, { name });
+	for (let duplicate of imported.duplicates) {
+		process.stderr.write(`"${duplicate.label}" is listed more than once; only the first is ranked.\n`);
+	}
+	let items = withoutDuplicates(imported.items);
+	if (items.length == 0) throw new CliError(name + " has no items.");
+	return items;
+}
+
+/**
+ * The keyboard. stdin may be the list, so the terminal is opened directly.
+ */
+function openTerminal (): ReadStream {
+	if (process.stdin.isTTY) return process.stdin as ReadStream;
+	try {
+		return new ReadStream(openSync(process.platform === "win32" ? "CONIN$" : "/dev/tty", "r"));
+	} catch {
+		throw new CliError("There is no terminal to ask the questions in; give an answers file with --answers.");
+	}
+}
+
+type Key = "left" | "neither" | "right" | "undo" | "redo" | "quit";
+
+const KEYS: Record<string, Key> = {
+	"1": "left",
+	"\u001b[D": "left",
+	"2": "neither",
+	"\u001b[B": "neither",
+	"3": "right",
+	"\u001b[C": "right",
+	"u": "undo",
+	"r": "redo",
+	"q": "quit",
+	"\u001b": "quit",
+	"\u0003": "quit", // Ctrl+C, which raw mode delivers as a key
+};
+
+function readKey (terminal: ReadStream): Promise<Key> {
+	return new Promise(resolve => {
+		terminal.setRawMode(true);
+		terminal.resume();
+		let pressed = (data: Buffer) => {
+			let text = data.toString("utf8");
+			let key = KEYS[text] ?? KEYS[text.toLowerCase()];
+			if (key === undefined) return;
+			terminal.off("data", pressed);
+			terminal.setRawMode(false);
+			terminal.pause();
+			resolve(key);
+		};
+		terminal.on("data", pressed);
+	});
+}
+
+/**
+ * Writes through a temporary file, so an interrupted save keeps the previous one.
+ */
+function saveSession (file: string, session: SortSession<Item>) {
+	writeFileSync(file + ".tmp", JSON.stringify(session));
+	renameSync(file + ".tmp", file);
+}
+
+async function main (args: string[]) {
+	let options = parseArguments(args);
+	if (options.help) {
+		process.stdout.write(USAGE + "\n");
+		return;
+	}
+
+	let session: SortSession<Item>;
+	if (options.session !== undefined && existsSync(options.session)) {
+		if (options.answers !== undefined) {
+			throw new CliError(`${options.session} already holds a session, so --answers would be ignored; give a new session file.`);
+		}
+		session = SortSession.restore(JSON.parse(readFileSync(options.session, "utf8")));
+		process.stderr.write(`Resuming ${options.session}: ${session.answered} answers so far.\n`);
+	} else {
+		let items = readList(options);
+		let answers = options.answers === undefined ? [] : indexAnswers(items, readAnswers(readFileSync(options.answers, "utf8")));
+		session = new SortSession(items, { strategy: options.strategy, topK: options.topK, criteria: options.criteria, answers });
+	}
+
+	await session.start();
+	let terminal = session.done || options.answers !== undefined ? null : openTerminal();
+	while (!session.done) {
+		let question = session.question;
+		if (question === null) throw new Error("The sort stopped without a question.");
+		if (terminal === null) {
+			throw new CliError(`The answers do not say whether "${question.left.label}" or "${question.right.label}" goes first.`, 2);
+		}
+
+		let { best, worst } = session.remaining;
+		let left = best == worst ? `${best}` : `${best}-${worst}`;
+		let on = question.criterion === null ? "" : ` on ${question.criterion}`;
+		process.stderr.write(`\n[${session.answered + 1}, about ${left} left] Which goes first${on}?\n`
+			+ `  1 ← ${question.left.label}\n  2 ↓ equal\n  3 → ${question.right.label}\n`);
+
+		let key = await readKey(terminal);
+		switch (key) {
+		case "quit":
+			if (options.session !== undefined) saveSession(options.session, session);
+			throw new CliError(options.session === undefined ? "Quit." : "Quit; run again with the same --session to continue.", 130);
+		case "undo":
+			if (session.canUndo) await session.undo();
+			break;
+		case "redo":
+			if (session.canRedo) await session.redo();
+			break;
+		default:
+			await session.answer(key == "left" ? -1 : key == "right" ? 1 : 0);
+		}
+		if (options.session !== undefined) saveSession(options.session, session);
+	}
+
+	if (options.session !== undefined) saveSession(options.session, session);
+	process.stdout.write(exportRanking(session, options.format));
+}
+
+main(process.argv.slice(2)).then(() => process.exit(0), error => {
+	process.stderr.write((error instanceof Error ? error.message : String(error)) + "\n");
+	process.exit(error instanceof CliError ? error.code : 1);
+});
@@ -6,3 +6,16 @@ declare module '*.vue' {
   const component: DefineComponent<{}, {}, any>
   export default component
 }
+
+interface ImportMetaEnv {
+  // where shared links point, for builds not served from the address they should use
+  readonly VITE_SHARE_URL?: string
+}
+
+// not in TypeScript's DOM library yet
+declare class CompressionStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(format: 'deflate' | 'deflate-raw' | 'gzip')
+}
+declare class DecompressionStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(format: 'deflate' | 'deflate-raw' | 'gzip')
+}
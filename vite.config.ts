@@ -3,5 +3,7 @@ import vue from '@vitejs/plugin-vue'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [vue()]
+  plugins: [vue()],
+  // relative asset paths, so the web build works from any folder of a static host such as github.io
+  base: './'
 })